@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { double, int, json, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -27,6 +27,12 @@ export const projects = mysqlTable("projects", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   status: mysqlEnum("status", ["active", "completed", "archived"]).default("active").notNull(),
+  approvalPolicy: json("approvalPolicy"),
+  pipeline: json("pipeline"),
+  budget: json("budget"),
+  prompts: json("prompts"),
+  toolPermissions: json("toolPermissions"),
+  verifierRules: json("verifierRules"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -79,6 +85,8 @@ export const agentMemory = mysqlTable("agentMemory", {
   key: varchar("key", { length: 255 }).notNull(),
   value: text("value").notNull(),
   embedding: text("embedding"),
+  accessCount: int("accessCount").default(0).notNull(),
+  lastAccessed: timestamp("lastAccessed").defaultNow().notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -86,17 +94,66 @@ export const agentMemory = mysqlTable("agentMemory", {
 export type AgentMemory = typeof agentMemory.$inferSelect;
 export type InsertAgentMemory = typeof agentMemory.$inferInsert;
 
+/**
+ * Agent runs table - one orchestration request and its outcome; agent tasks reference their run
+ */
+export const agentRuns = mysqlTable("agentRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  projectId: int("projectId").notNull(),
+  userId: int("userId").notNull(),
+  prompt: text("prompt").notNull(),
+  status: mysqlEnum("status", ["pending", "running", "awaiting_approval", "completed", "failed", "cancelled"])
+    .default("pending")
+    .notNull(),
+  approvalGate: mysqlEnum("approvalGate", ["plan", "changeset", "execution"]),
+  approvalDecision: mysqlEnum("approvalDecision", ["approved", "rejected"]),
+  approvalFeedback: text("approvalFeedback"),
+  memoryIds: json("memoryIds"),
+  checkpoint: json("checkpoint"),
+  outcome: text("outcome"),
+  error: text("error"),
+  startedAt: timestamp("startedAt"),
+  finishedAt: timestamp("finishedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type AgentRun = typeof agentRuns.$inferSelect;
+export type InsertAgentRun = typeof agentRuns.$inferInsert;
+
 /**
  * Agent tasks table - tracks agent tasks and their execution
  */
 export const agentTasks = mysqlTable("agentTasks", {
   id: int("id").autoincrement().primaryKey(),
   projectId: int("projectId").notNull(),
-  agentType: mysqlEnum("agentType", ["planner", "coder", "verifier", "executor"]).notNull(),
-  status: mysqlEnum("status", ["pending", "running", "completed", "failed"]).default("pending").notNull(),
+  runId: int("runId"),
+  parentTaskId: int("parentTaskId"),
+  agentType: mysqlEnum("agentType", ["planner", "coder", "verifier", "tester", "reviewer", "executor"]).notNull(),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed", "dead_letter", "cancelled"])
+    .default("pending")
+    .notNull(),
   prompt: text("prompt").notNull(),
   result: text("result"),
   error: text("error"),
+  attempt: int("attempt").default(1).notNull(),
+  planStepId: varchar("planStepId", { length: 64 }),
+  plan: json("plan"),
+  changeset: json("changeset"),
+  execution: json("execution"),
+  model: varchar("model", { length: 128 }),
+  promptTokens: int("promptTokens"),
+  completionTokens: int("completionTokens"),
+  costUsd: double("costUsd"),
+  prompts: json("prompts"),
+  toolCalls: json("toolCalls"),
+  testResults: json("testResults"),
+  reviewComments: json("reviewComments"),
+  retries: int("retries").default(0).notNull(),
+  maxRetries: int("maxRetries").default(3).notNull(),
+  runAfter: timestamp("runAfter"),
+  leaseOwner: varchar("leaseOwner", { length: 64 }),
+  leaseExpiresAt: timestamp("leaseExpiresAt"),
+  pausedAt: timestamp("pausedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   completedAt: timestamp("completedAt"),
 });
@@ -0,0 +1,1090 @@
+/**
+ * AIDE Platform - Agent Orchestrator Tests
+ * Runs the agent pipeline offline against the local stub provider
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  AgentOrchestrator,
+  CoderAgent,
+  PlannerAgent,
+  VerifierAgent,
+  collectVerifiedChangesets,
+  type RunCheckpoint,
+} from "./server-agentOrchestrator";
+import { parsePlan, orderPlanSteps, parallelBatch } from "./server-agentPlan";
+import {
+  GeminiProvider,
+  LocalStubProvider,
+  OpenAICompatibleProvider,
+  providerConfigFromEnv,
+  type ChatMessage,
+  type CompletionOptions,
+  type CompletionResult,
+  type TokenUsage,
+} from "./server-llmProviders";
+import type { ApprovalDecision, ApprovalRequest } from "./server-approvals";
+import { MemoryContext, MemoryStorage } from "./server-memorySystem";
+import { PipelineSchema } from "./server-pipeline";
+import { RunCancelledError, RunControl } from "./server-runControl";
+import { RunEventBus, type RunEvent } from "./server-runEvents";
+
+const VALID_CODE = `export function add(a: number, b: number): number {
+  try {
+    return a + b;
+  } catch (error) {
+    throw error;
+  }
+}`;
+
+const changesetFor = (content: string, path = "src/add.ts") =>
+  JSON.stringify({ summary: "Add numbers", changes: [{ op: "create", path, content }] });
+
+const EXECUTOR = {
+  command: ["node", "-e", "require('fs').accessSync('src/add.ts')"],
+  requireNetworkIsolation: false,
+};
+
+const PLAN_JSON = JSON.stringify({
+  summary: "Add numbers",
+  steps: [{ id: "add", description: "Add function", files: ["src/add.ts"], acceptanceCriteria: ["adds"] }],
+});
+
+/**
+ * Test Suite: LLM Providers
+ */
+describe("LLM Providers", () => {
+  it("should stream the same text the stub completes", async () => {
+    const provider = new LocalStubProvider({ responder: () => "one two  three" });
+    const tokens: string[] = [];
+
+    for await (const token of provider.stream([{ role: "user", content: "hi" }])) {
+      tokens.push(token);
+    }
+
+    expect(tokens.join("")).toBe("one two  three");
+  });
+
+  it("should resolve per-agent configuration from the environment", () => {
+    const env = {
+      AIDE_LLM_PROVIDER: "openai-compatible",
+      AIDE_LLM_MODEL: "llama3",
+      AIDE_CODER_MODEL: "deepseek-coder",
+      OPENAI_BASE_URL: "http://localhost:11434/v1",
+    };
+
+    expect(providerConfigFromEnv("planner", env).model).toBe("llama3");
+    expect(providerConfigFromEnv("coder", env).model).toBe("deepseek-coder");
+    expect(providerConfigFromEnv("coder", env).baseUrl).toBe("http://localhost:11434/v1");
+  });
+
+  it("should default to the local stub when nothing is configured, except in production", () => {
+    expect(providerConfigFromEnv("verifier", {}).kind).toBe("local-stub");
+    expect(() => providerConfigFromEnv("verifier", { NODE_ENV: "production" })).toThrow(
+      "No model provider is configured for the verifier; set AIDE_LLM_PROVIDER or AIDE_VERIFIER_PROVIDER"
+    );
+    expect(providerConfigFromEnv("verifier", { NODE_ENV: "production", AIDE_LLM_PROVIDER: "local-stub" }).kind).toBe(
+      "local-stub"
+    );
+  });
+
+  it("should report the usage an OpenAI-compatible stream sends at its end", async () => {
+    const bodies: any[] = [];
+    vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(init.body as string));
+      return new Response(
+        [
+          'data: {"choices": [{"delta": {"content": "he"}}]}',
+          'data: {"choices": [{"delta": {"content": "llo"}}]}',
+          'data: {"choices": [], "usage": {"prompt_tokens": 12, "completion_tokens": 2}}',
+          "data: [DONE]",
+        ].join("\n\n")
+      );
+    });
+
+    const tokens: string[] = [];
+    const usage: TokenUsage[] = [];
+    try {
+      const provider = new OpenAICompatibleProvider({ model: "gpt-4o", baseUrl: "http://openai.test/v1" });
+      for await (const token of provider.stream([{ role: "user", content: "hi" }], { onUsage: (u) => usage.push(u) })) {
+        tokens.push(token);
+      }
+    } finally {
+      vi.unstubAllGlobals();
+    }
+
+    expect(tokens.join("")).toBe("hello");
+    expect(usage).toEqual([{ promptTokens: 12, completionTokens: 2 }]);
+    expect(bodies[0]).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it("should send the Gemini API key in a header, not the URL", async () => {
+    const requests: { url: string; headers: HeadersInit | undefined }[] = [];
+    vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+      requests.push({ url, headers: init.headers });
+      return new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: "hi" }] } }] }));
+    });
+
+    try {
+      const provider = new GeminiProvider({ model: "gemini-1.5-pro", apiKey: "secret", baseUrl: "http://gemini.test" });
+      expect((await provider.complete([{ role: "user", content: "hi" }])).content).toBe("hi");
+    } finally {
+      vi.unstubAllGlobals();
+    }
+    expect(requests).toEqual([
+      {
+        url: "http://gemini.test/models/gemini-1.5-pro:generateContent",
+        headers: { "Content-Type": "application/json", "x-goog-api-key": "secret" },
+      },
+    ]);
+  });
+});
+
+/**
+ * Test Suite: Plans
+ */
+describe("Plans", () => {
+  it("should order steps after their dependencies", () => {
+    const plan = parsePlan(
+      JSON.stringify({
+        steps: [
+          { id: "ui", description: "UI", dependsOn: ["api"] },
+          { id: "api", description: "API", dependsOn: ["schema"] },
+          { id: "schema", description: "Schema" },
+        ],
+      })
+    );
+
+    expect(orderPlanSteps(plan).map((s) => s.id)).toEqual(["schema", "api", "ui"]);
+  });
+
+  it("should batch leading steps that share no files or dependencies", () => {
+    const steps = parsePlan(
+      JSON.stringify({
+        steps: [
+          { id: "a", description: "A", files: ["a.ts"] },
+          { id: "b", description: "B", files: ["b.ts"] },
+          { id: "c", description: "C", files: ["c.ts"], dependsOn: ["a"] },
+          { id: "d", description: "D", files: ["d.ts"] },
+        ],
+      })
+    ).steps;
+
+    expect(parallelBatch(steps, 4).map((s) => s.id)).toEqual(["a", "b"]);
+    expect(parallelBatch(steps, 1).map((s) => s.id)).toEqual(["a"]);
+    expect(parallelBatch(steps.slice(2), 4).map((s) => s.id)).toEqual(["c", "d"]);
+    expect(parallelBatch([{ ...steps[0], files: [] }, steps[1]], 4)).toHaveLength(1);
+  });
+
+  it("should reject unknown dependencies and cycles", () => {
+    expect(() =>
+      parsePlan(JSON.stringify({ steps: [{ id: "a", description: "A", dependsOn: ["missing"] }] }))
+    ).toThrow('depends on unknown step "missing"');
+
+    expect(() =>
+      parsePlan(
+        JSON.stringify({
+          steps: [
+            { id: "a", description: "A", dependsOn: ["b"] },
+            { id: "b", description: "B", dependsOn: ["a"] },
+          ],
+        })
+      )
+    ).toThrow("dependency cycle");
+  });
+});
+
+/**
+ * Test Suite: Agents
+ */
+describe("Agents", () => {
+  it("should pass the request to the planner model", async () => {
+    let received: ChatMessage[] = [];
+    const planner = new PlannerAgent(
+      new LocalStubProvider({
+        responder: (messages) => {
+          received = messages;
+          return "```json\n" + PLAN_JSON + "\n```";
+        },
+      })
+    );
+
+    const response = await planner.analyze("Todo app");
+
+    expect(response.success).toBe(true);
+    expect(response.plan?.steps[0].id).toBe("add");
+    expect(response.result).toContain("[add] Add function");
+    expect(received[received.length - 1].content).toBe("Todo app");
+  });
+
+  it("should parse a fenced changeset from the coder", async () => {
+    const coder = new CoderAgent(
+      new LocalStubProvider({ responder: () => "```json\n" + changesetFor(VALID_CODE) + "\n```" })
+    );
+
+    const response = await coder.generate("Add numbers");
+    expect(response.changeset?.changes[0]).toEqual({ op: "create", path: "src/add.ts", content: VALID_CODE });
+    expect(response.result).toContain("create src/add.ts");
+  });
+
+  it("should report issues raised by the review model", async () => {
+    const verifier = new VerifierAgent(
+      new LocalStubProvider({ responder: () => "- Missing input validation" })
+    );
+
+    const response = await verifier.verify({
+      files: new Map(),
+      changeset: JSON.parse(changesetFor(VALID_CODE)),
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.issues).toEqual([{ source: "model", message: "Missing input validation" }]);
+    expect(response.nextAgent).toBe("coder");
+  });
+
+  it("should report compiler diagnostics with their location", async () => {
+    const verifier = new VerifierAgent(new LocalStubProvider({ responder: () => "LGTM" }));
+    const broken = VALID_CODE.replace("return a + b;", "return `${a}`;");
+
+    const response = await verifier.verify({
+      files: new Map(),
+      changeset: JSON.parse(changesetFor(broken)),
+    });
+
+    expect(response.issues).toEqual([
+      {
+        source: "typescript",
+        message: "Type 'string' is not assignable to type 'number'.",
+        file: "src/add.ts",
+        line: 3,
+        column: 5,
+        code: 2322,
+      },
+    ]);
+    expect(response.error).toContain("src/add.ts(3,5): error TS2322");
+  });
+
+  it("should only report compiler errors the change introduced in other files", async () => {
+    const verifier = new VerifierAgent(new LocalStubProvider({ responder: () => "LGTM" }));
+    const files = new Map([
+      ["src/add.ts", VALID_CODE],
+      ["src/legacy.ts", "export const legacy: number = 'old';"],
+      ["src/index.ts", "import { add } from './add';\nexport const sum = add(1, 2);"],
+    ]);
+
+    const response = await verifier.verify({
+      files,
+      changeset: { summary: "", changes: [{ op: "delete", path: "src/add.ts" }] },
+    });
+
+    expect(response.issues?.map((i) => `${i.file}:${i.code}`)).toEqual(["src/index.ts:2307"]);
+  });
+
+  it("should fail when the planner returns an invalid plan", async () => {
+    const planner = new PlannerAgent(new LocalStubProvider({ responder: () => "1. Build it" }));
+
+    const response = await planner.analyze("Todo app");
+    expect(response.success).toBe(false);
+    expect(response.error).toContain("Plan is not valid JSON");
+  });
+
+  it("should surface provider failures as agent errors", async () => {
+    const planner = new PlannerAgent(
+      new LocalStubProvider({
+        responder: () => {
+          throw new Error("model unavailable");
+        },
+      })
+    );
+
+    const response = await planner.analyze("Todo app");
+    expect(response.success).toBe(false);
+    expect(response.error).toContain("model unavailable");
+  });
+});
+
+/**
+ * Test Suite: Orchestration
+ */
+describe("Orchestration", () => {
+  it("should run the full pipeline offline", async () => {
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({ responder: () => changesetFor(VALID_CODE) }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1);
+
+    expect(tasks.map((t) => t.agentType)).toEqual(["planner", "coder", "verifier", "executor"]);
+    expect(tasks.every((t) => t.status === "completed")).toBe(true);
+    expect(collectVerifiedChangesets(tasks)).toHaveLength(1);
+  });
+
+  it("should publish progress events while the run is underway", async () => {
+    const events = new RunEventBus();
+    const received: RunEvent[] = [];
+    events.subscribe({ projectId: 1, runId: "run-1" }, (event) => received.push(event));
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      events,
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({ responder: () => changesetFor(VALID_CODE) }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    await orchestrator.orchestrate("Add numbers", 1, { runId: "run-1" });
+
+    const lifecycle = received
+      .filter((e) => e.type !== "agent:token")
+      .map((e) => (e.type === "agent:start" || e.type === "agent:finish" ? `${e.type}:${e.agentType}` : e.type));
+    expect(lifecycle).toEqual([
+      "run:start",
+      "agent:start:planner",
+      "agent:finish:planner",
+      "agent:start:coder",
+      "agent:finish:coder",
+      "agent:start:verifier",
+      "agent:finish:verifier",
+      "agent:start:executor",
+      "agent:finish:executor",
+      "run:finish",
+    ]);
+
+    const plannerTokens = received
+      .filter((e) => e.type === "agent:token" && e.agentType === "planner")
+      .map((e) => (e.type === "agent:token" ? e.token : ""));
+    expect(plannerTokens.join("")).toBe(PLAN_JSON);
+    expect(received[received.length - 1]).toMatchObject({ type: "run:finish", status: "completed" });
+  });
+
+  it("should feed verifier issues back to the coder until it passes", async () => {
+    const coderInputs: ChatMessage[][] = [];
+    const outputs = [changesetFor("export const broken = 1;"), changesetFor(VALID_CODE)];
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({
+          responder: (messages) => {
+            coderInputs.push(messages);
+            return outputs[coderInputs.length - 1];
+          },
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1);
+
+    expect(tasks.map((t) => `${t.agentType}:${t.attempt}:${t.status}`)).toEqual([
+      "planner:1:completed",
+      "coder:1:completed",
+      "verifier:1:failed",
+      "coder:2:completed",
+      "verifier:2:completed",
+      "executor:1:completed",
+    ]);
+    expect(coderInputs[1][coderInputs[1].length - 1].content).toContain("No error handling detected");
+    expect(collectVerifiedChangesets(tasks).map((c) => c.changes[0])).toEqual([
+      { op: "create", path: "src/add.ts", content: VALID_CODE },
+    ]);
+  });
+
+  it("should send changesets that do not apply back to the coder", async () => {
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      maxRepairAttempts: 1,
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({ responder: () => changesetFor(VALID_CODE) }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1, { files: { "src/add.ts": "" } });
+
+    expect(tasks[tasks.length - 1].agentType).toBe("verifier");
+    expect(tasks[tasks.length - 1].error).toContain("Cannot create src/add.ts: file already exists");
+  });
+
+  it("should stop after the configured number of repair attempts", async () => {
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      maxRepairAttempts: 2,
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({ responder: () => changesetFor("const x = 1;") }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1);
+
+    expect(tasks.filter((t) => t.agentType === "coder")).toHaveLength(2);
+    expect(tasks[tasks.length - 1].agentType).toBe("verifier");
+    expect(tasks[tasks.length - 1].status).toBe("failed");
+  });
+
+  it("should re-run only the selected plan steps", async () => {
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      providers: {
+        coder: new LocalStubProvider({ responder: () => changesetFor(VALID_CODE) }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+    const plan = parsePlan(
+      JSON.stringify({
+        steps: [
+          { id: "schema", description: "Schema" },
+          { id: "api", description: "API", dependsOn: ["schema"] },
+        ],
+      })
+    );
+
+    const tasks = await orchestrator.executePlan("Add numbers", 1, plan, ["api"]);
+
+    expect(tasks.map((t) => t.planStepId)).toEqual(["api", "api", undefined]);
+    expect(tasks[tasks.length - 1].agentType).toBe("executor");
+  });
+});
+
+/**
+ * Test Suite: Pipelines
+ */
+describe("Pipelines", () => {
+  it("should run a coder and verifier only pipeline", async () => {
+    const orchestrator = new AgentOrchestrator({
+      providers: {
+        coder: new LocalStubProvider({ responder: () => changesetFor(VALID_CODE) }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+    const pipeline = PipelineSchema.parse({
+      name: "code-review",
+      stages: [
+        { id: "code", agent: "coder" },
+        { id: "verify", agent: "verifier", onFailure: "code" },
+      ],
+    });
+
+    const result = await orchestrator.run("Add numbers", 1, { pipeline });
+
+    expect(result.tasks.map((t) => t.agentType)).toEqual(["coder", "verifier"]);
+    expect(result.status).toBe("completed");
+    expect(result.outcome).toContain("verification passed");
+  });
+
+  it("should send failures of an extra verification pass back to the coder", async () => {
+    const reviews = ["LGTM", "- Missing docs", "LGTM", "LGTM"];
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({ responder: () => changesetFor(VALID_CODE) }),
+        verifier: new LocalStubProvider({ responder: () => reviews.shift()! }),
+      },
+    });
+    const pipeline = PipelineSchema.parse({
+      stages: [
+        { id: "plan", agent: "planner" },
+        { id: "code", agent: "coder" },
+        { id: "verify", agent: "verifier", onFailure: "code" },
+        { id: "second-opinion", agent: "verifier", onFailure: "code", maxFailures: 2 },
+        { id: "execute", agent: "executor" },
+      ],
+    });
+
+    const result = await orchestrator.run("Add numbers", 1, { pipeline });
+
+    expect(result.tasks.map((t) => `${t.agentType}:${t.attempt}:${t.status}`)).toEqual([
+      "planner:1:completed",
+      "coder:1:completed",
+      "verifier:1:completed",
+      "verifier:1:failed",
+      "coder:2:completed",
+      "verifier:2:completed",
+      "verifier:2:completed",
+      "executor:1:completed",
+    ]);
+    expect(result.tasks[3].parentTaskId).toBe(result.tasks[2].id);
+    expect(result.tasks[4].parentTaskId).toBe(result.tasks[3].id);
+    expect(result.status).toBe("completed");
+  });
+
+  it("should fail the run once a stage reaches its loop limit", async () => {
+    const orchestrator = new AgentOrchestrator({
+      providers: {
+        coder: new LocalStubProvider({ responder: () => changesetFor("const x = 1;") }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+    const pipeline = PipelineSchema.parse({
+      stages: [
+        { id: "code", agent: "coder" },
+        { id: "verify", agent: "verifier", onFailure: "code", maxFailures: 2 },
+      ],
+    });
+
+    const result = await orchestrator.run("Add numbers", 1, { pipeline });
+
+    expect(result.tasks.map((t) => t.agentType)).toEqual(["coder", "verifier", "coder", "verifier"]);
+    expect(result.status).toBe("failed");
+    expect(result.error).toContain("No exports found in code");
+  });
+});
+
+/**
+ * Test Suite: Long-Term Memory
+ */
+describe("Long-Term Memory", () => {
+  it("should give relevant memories to the planner and coder and record them on the result", async () => {
+    const memory = new MemoryContext(new MemoryStorage());
+    await memory.learnFromExecution(5, 1, "Add numbers", "Add numbers with a pure exported function", true);
+    const plannerInputs: ChatMessage[][] = [];
+    const coderInputs: ChatMessage[][] = [];
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      memory,
+      providers: {
+        planner: new LocalStubProvider({
+          responder: (messages) => {
+            plannerInputs.push(messages);
+            return PLAN_JSON;
+          },
+        }),
+        coder: new LocalStubProvider({
+          responder: (messages) => {
+            coderInputs.push(messages);
+            return changesetFor(VALID_CODE);
+          },
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const result = await orchestrator.run("Add numbers", 1, { userId: 5 });
+
+    expect(result.memoryIds).toEqual(["mem-1"]);
+    expect(plannerInputs[0][1].content).toContain("- [solution] Add numbers with a pure exported function");
+    expect(coderInputs[0][1].content).toContain("- [solution] Add numbers with a pure exported function");
+  });
+
+  it("should learn from verifier and executor outcomes", async () => {
+    const storage = new MemoryStorage();
+    const outputs = [changesetFor("export const broken = 1;"), changesetFor(VALID_CODE)];
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      memory: new MemoryContext(storage),
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({ responder: () => outputs.shift()! }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    await orchestrator.run("Add numbers", 1, { userId: 5 });
+
+    const { entries } = await storage.retrieve({ userId: 5, projectId: 1 });
+    expect(entries.map((e) => e.memoryType).sort()).toEqual(["error", "solution", "solution"]);
+    expect(entries.find((e) => e.memoryType === "error")?.value).toContain("No error handling detected");
+  });
+
+  it("should not touch memory without a user", async () => {
+    const storage = new MemoryStorage();
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      memory: new MemoryContext(storage),
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({ responder: () => changesetFor(VALID_CODE) }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const result = await orchestrator.run("Add numbers", 1);
+
+    expect(result.memoryIds).toEqual([]);
+    expect(storage.getStatistics(5).totalMemories).toBe(0);
+  });
+});
+
+/**
+ * Test Suite: Budgets
+ */
+describe("Budgets", () => {
+  /**
+   * Reports fixed token counts, as Gemini and OpenAI do, rather than the stub's estimate
+   */
+  class ReportingProvider extends LocalStubProvider {
+    async complete(messages: ChatMessage[], options?: CompletionOptions): Promise<CompletionResult> {
+      return { ...(await super.complete(messages, options)), usage: { promptTokens: 120, completionTokens: 30 } };
+    }
+  }
+
+  const orchestrator = () =>
+    new AgentOrchestrator({
+      executor: EXECUTOR,
+      prices: { "planner-model": { prompt: 1_000_000, completion: 1_000_000 } },
+      providers: {
+        planner: new ReportingProvider({ model: "planner-model", responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({ responder: () => changesetFor(VALID_CODE) }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+  it("should record the model usage of every step", async () => {
+    const result = await orchestrator().run("Add numbers", 1);
+
+    const planner = result.tasks[0];
+    expect(planner.usage).toEqual({ model: "planner-model", promptTokens: 120, completionTokens: 30, costUsd: 150 });
+    expect(planner.usage!.estimated).toBeFalsy();
+    expect(result.tasks[3].usage).toBeUndefined();
+    expect(result.usage.costUsd).toBe(planner.usage!.costUsd);
+  });
+
+  it("should stop the run once its budget is spent", async () => {
+    const result = await orchestrator().run("Add numbers", 1, { budget: { limits: { maxRunCostUsd: 10 } } });
+
+    expect(result.tasks.map((t) => t.agentType)).toEqual(["planner"]);
+    expect(result.status).toBe("failed");
+    expect(result.error).toMatch(/^Budget exceeded: run cost \$\d+\.\d{4} of \$10\.0000$/);
+  });
+
+  it("should not start a run for a project that has used up its budget", async () => {
+    const result = await orchestrator().run("Add numbers", 1, {
+      budget: {
+        limits: { maxProjectTokens: 1000 },
+        projectSpend: { promptTokens: 900, completionTokens: 100, costUsd: 0 },
+      },
+    });
+
+    expect(result.tasks).toEqual([]);
+    expect(result.error).toBe("Budget exceeded: project used 1000 of 1000 tokens");
+  });
+
+  it("should stop an agent calling tools once the budget is spent", async () => {
+    let coderRequests = 0;
+    const result = await new AgentOrchestrator({
+      executor: EXECUTOR,
+      prices: { "coder-model": { prompt: 1_000_000, completion: 1_000_000 } },
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({
+          model: "coder-model",
+          responder: () => {
+            coderRequests++;
+            return '{"tool": "list_files", "arguments": {}}';
+          },
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    }).run("Add numbers", 1, { budget: { limits: { maxRunCostUsd: 10 } } });
+
+    expect(coderRequests).toBe(1);
+    expect(result.tasks.map((t) => [t.agentType, t.status])).toEqual([
+      ["planner", "completed"],
+      ["coder", "failed"],
+    ]);
+    expect(result.tasks[1].usage!.costUsd).toBeGreaterThan(10);
+    expect(result.error).toMatch(/^Budget exceeded: run cost/);
+  });
+});
+
+/**
+ * Test Suite: Parallel Steps
+ */
+describe("Parallel Steps", () => {
+  const PARALLEL_PLAN = JSON.stringify({
+    steps: [
+      { id: "a", description: "Module a", files: ["src/a.ts"] },
+      { id: "b", description: "Module b", files: ["src/b.ts"] },
+      { id: "c", description: "Module c", files: ["src/c.ts"], dependsOn: ["a"] },
+    ],
+  });
+
+  const moduleFor = (name: string) => VALID_CODE.replace("function add", `function ${name}`);
+  const stepOf = (messages: ChatMessage[]) =>
+    messages.map((m) => m.content.match(/^Implement only step \[(\w+)\]/)?.[1]).find(Boolean) || "";
+
+  it("should generate independent steps at the same time", async () => {
+    const events = new RunEventBus();
+    const order: string[] = [];
+    const stepOfTask = new Map<string, string | undefined>();
+    events.subscribe({ projectId: 1, runId: "run-par" }, (e) => {
+      if (e.type === "agent:start" && e.agentType === "coder") {
+        stepOfTask.set(e.taskId, e.planStepId);
+        order.push(`start:${e.planStepId}`);
+      }
+      if (e.type === "agent:finish" && e.agentType === "coder") order.push(`finish:${stepOfTask.get(e.taskId)}`);
+    });
+    const orchestrator = new AgentOrchestrator({
+      maxParallelSteps: 2,
+      events,
+      executor: {
+        command: ["node", "-e", "['a', 'b', 'c'].forEach((f) => require('fs').accessSync(`src/${f}.ts`))"],
+        requireNetworkIsolation: false,
+      },
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PARALLEL_PLAN }),
+        coder: new LocalStubProvider({
+          responder: (messages) => changesetFor(moduleFor(stepOf(messages)), `src/${stepOf(messages)}.ts`),
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const checkpoints: RunCheckpoint[] = [];
+    const result = await orchestrator.run("Three modules", 1, {
+      runId: "run-par",
+      onCheckpoint: (checkpoint) => void checkpoints.push(JSON.parse(JSON.stringify(checkpoint))),
+    });
+
+    expect(result.status).toBe("completed");
+    expect(order.slice(0, 2)).toEqual(["start:a", "start:b"]);
+    expect(order.slice(4)).toEqual(["start:c", "finish:c"]);
+    expect(checkpoints.map((c) => `${c.stageId}:${c.stepIndex}:${c.accepted.length}`)).toEqual([
+      "code:0:0",
+      "code:2:2",
+      "execute:3:3",
+    ]);
+  });
+
+  it("should send a step that edits a file changed alongside it back to the coder", async () => {
+    const inputs: ChatMessage[][] = [];
+    const orchestrator = new AgentOrchestrator({
+      maxParallelSteps: 2,
+      executor: EXECUTOR,
+      providers: {
+        planner: new LocalStubProvider({
+          responder: () =>
+            JSON.stringify({
+              steps: [
+                { id: "a", description: "Module a", files: ["src/a.ts"] },
+                { id: "b", description: "Module b", files: ["src/b.ts"] },
+              ],
+            }),
+        }),
+        coder: new LocalStubProvider({
+          responder: (messages) => {
+            inputs.push(messages);
+            const step = stepOf(messages);
+            const changes = [{ op: "create", path: `src/${step}.ts`, content: moduleFor(step) }];
+            // Step b also writes a's file on its first attempt
+            if (step === "b" && !messages.some((m) => m.content.includes("conflicts"))) {
+              changes.push({ op: "create", path: "src/a.ts", content: moduleFor("a") });
+            }
+            return JSON.stringify({ summary: step, changes });
+          },
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const result = await orchestrator.run("Two modules", 1, { files: { "src/add.ts": VALID_CODE } });
+
+    expect(result.status).toBe("completed");
+    expect(
+      result.tasks.filter((t) => t.planStepId === "b").map((t) => `${t.agentType}:${t.attempt}:${t.status}`)
+    ).toEqual(["coder:1:completed", "verifier:1:completed", "coder:2:completed", "verifier:2:completed"]);
+
+    const retry = inputs[inputs.length - 1].map((m) => m.content).join("\n");
+    expect(retry).toContain("Attempt 1 conflicts with steps implemented alongside it");
+    expect(retry).toContain("src/a.ts was also changed by step [a]");
+    expect(retry).toContain("--- src/a.ts");
+  });
+});
+
+/**
+ * Test Suite: Approval Gates
+ */
+describe("Approval Gates", () => {
+  const providers = (plannerInputs: ChatMessage[][] = [], coderInputs: ChatMessage[][] = []) => ({
+    planner: new LocalStubProvider({
+      responder: (messages) => {
+        plannerInputs.push(messages);
+        return PLAN_JSON;
+      },
+    }),
+    coder: new LocalStubProvider({
+      responder: (messages) => {
+        coderInputs.push(messages);
+        return changesetFor(VALID_CODE);
+      },
+    }),
+    verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+  });
+
+  it("should send a rejected plan back to the planner with the feedback", async () => {
+    const plannerInputs: ChatMessage[][] = [];
+    const decisions: ApprovalDecision[] = [{ approved: false, feedback: "Split the API step" }, { approved: true }];
+    const orchestrator = new AgentOrchestrator({ executor: EXECUTOR, providers: providers(plannerInputs) });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1, {
+      approval: { policy: { gates: ["plan"] }, request: async () => decisions.shift()! },
+    });
+
+    expect(tasks.map((t) => t.agentType)).toEqual(["planner", "planner", "coder", "verifier", "executor"]);
+    expect(plannerInputs[1][plannerInputs[1].length - 1].content).toContain("Split the API step");
+    expect(tasks[1].parentTaskId).toBe(tasks[0].id);
+  });
+
+  it("should send a rejected changeset back to the coder without using up repair attempts", async () => {
+    const coderInputs: ChatMessage[][] = [];
+    const requests: ApprovalRequest[] = [];
+    const decisions: ApprovalDecision[] = [
+      { approved: false, feedback: "Use a reducer" },
+      { approved: false, feedback: "Add docs" },
+      { approved: true },
+    ];
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      maxRepairAttempts: 1,
+      providers: providers([], coderInputs),
+    });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1, {
+      approval: {
+        policy: { gates: ["changeset"] },
+        request: async (request) => {
+          requests.push(request);
+          return decisions.shift()!;
+        },
+      },
+    });
+
+    expect(tasks.filter((t) => t.agentType === "coder")).toHaveLength(3);
+    expect(tasks[tasks.length - 1].agentType).toBe("executor");
+    expect(requests[0]).toMatchObject({ gate: "changeset", planStepId: "add" });
+    expect(coderInputs[1][coderInputs[1].length - 1].content).toContain("A reviewer rejected attempt 1:\n- Use a reducer");
+  });
+
+  it("should send a rejected execution back to the coder with the feedback", async () => {
+    const events = new RunEventBus();
+    const received: RunEvent[] = [];
+    events.subscribe({ projectId: 1 }, (event) => received.push(event));
+    const coderInputs: ChatMessage[][] = [];
+    const decisions: ApprovalDecision[] = [{ approved: false, feedback: "Export it as default" }, { approved: true }];
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      events,
+      providers: {
+        ...providers(),
+        coder: new LocalStubProvider({
+          responder: (messages) => {
+            coderInputs.push(messages);
+            return coderInputs.length === 1
+              ? changesetFor(VALID_CODE)
+              : changesetFor(VALID_CODE.replace("function add", "default function add"), "src/default.ts");
+          },
+        }),
+      },
+    });
+
+    const result = await orchestrator.run("Add numbers", 1, {
+      approval: { policy: { gates: ["execution"] }, request: async () => decisions.shift()! },
+    });
+
+    expect(result.status).toBe("completed");
+    expect(result.tasks.map((t) => t.agentType)).toEqual([
+      "planner",
+      "coder",
+      "verifier",
+      "coder",
+      "verifier",
+      "executor",
+    ]);
+    expect(coderInputs[1][coderInputs[1].length - 1].content).toContain(
+      "A reviewer rejected running the project:\n- Export it as default"
+    );
+    expect(result.changesets).toHaveLength(2);
+    expect(received.filter((e) => e.type.startsWith("approval:")).map((e) => e.type)).toEqual([
+      "approval:requested",
+      "approval:resolved",
+      "approval:requested",
+      "approval:resolved",
+    ]);
+  });
+});
+
+/**
+ * Test Suite: Run Control
+ */
+describe("Run Control", () => {
+  const orchestratorWith = (onPlan: () => void, coderCalls: { count: number } = { count: 0 }) =>
+    new AgentOrchestrator({
+      executor: EXECUTOR,
+      providers: {
+        planner: new LocalStubProvider({
+          responder: () => {
+            onPlan();
+            return PLAN_JSON;
+          },
+        }),
+        coder: new LocalStubProvider({
+          responder: () => {
+            coderCalls.count++;
+            return changesetFor(VALID_CODE);
+          },
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+  it("should stop a cancelled run before the next agent step", async () => {
+    const control = new RunControl();
+    const coderCalls = { count: 0 };
+    const orchestrator = orchestratorWith(() => control.cancel("Wrong prompt"), coderCalls);
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1, { control });
+
+    expect(tasks.map((t) => `${t.agentType}:${t.status}`)).toEqual(["planner:cancelled"]);
+    expect(coderCalls.count).toBe(0);
+    expect(control.state).toBe("cancelled");
+  });
+
+  it("should hold a paused run until it is resumed", async () => {
+    const control = new RunControl();
+    const coderCalls = { count: 0 };
+    const orchestrator = orchestratorWith(() => control.pause(), coderCalls);
+
+    const run = orchestrator.orchestrate("Add numbers", 1, { control });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(control.state).toBe("paused");
+    expect(coderCalls.count).toBe(0);
+
+    control.resume();
+    const tasks = await run;
+
+    expect(tasks.map((t) => t.agentType)).toEqual(["planner", "coder", "verifier", "executor"]);
+    expect(tasks.every((t) => t.status === "completed")).toBe(true);
+  });
+
+  it("should cancel a paused run", async () => {
+    const control = new RunControl();
+    const orchestrator = orchestratorWith(() => control.pause());
+
+    const run = orchestrator.orchestrate("Add numbers", 1, { control });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    control.cancel();
+    const tasks = await run;
+
+    expect(tasks.map((t) => t.agentType)).toEqual(["planner"]);
+  });
+
+  it("should follow a parent abort signal", async () => {
+    const parent = new AbortController();
+    const control = new RunControl(parent.signal);
+    parent.abort("Client disconnected");
+
+    await expect(control.checkpoint()).rejects.toThrow(RunCancelledError);
+    await expect(control.checkpoint()).rejects.toThrow("Run cancelled: Client disconnected");
+  });
+});
+
+/**
+ * Test Suite: Checkpoints
+ */
+describe("Checkpoints", () => {
+  const TWO_STEPS = JSON.stringify({
+    summary: "Numbers",
+    steps: [
+      { id: "add", description: "Add function", files: ["src/add.ts"] },
+      { id: "sub", description: "Subtract function", files: ["src/sub.ts"], dependsOn: ["add"] },
+    ],
+  });
+  const SUB_CODE = VALID_CODE.replace("add", "sub").replace("a + b", "a - b");
+
+  const orchestratorWith = (calls: string[]) =>
+    new AgentOrchestrator({
+      executor: {
+        command: ["node", "-e", "require('fs').accessSync('src/add.ts'); require('fs').accessSync('src/sub.ts')"],
+        requireNetworkIsolation: false,
+      },
+      providers: {
+        planner: new LocalStubProvider({
+          responder: () => {
+            calls.push("planner");
+            return TWO_STEPS;
+          },
+        }),
+        coder: new LocalStubProvider({
+          responder: (messages) => {
+            calls.push("coder");
+            const sub = messages.some((m) => m.content.includes("Implement only step [sub]"));
+            return sub ? changesetFor(SUB_CODE, "src/sub.ts") : changesetFor(VALID_CODE);
+          },
+        }),
+        verifier: new LocalStubProvider({
+          responder: () => {
+            calls.push("verifier");
+            return "LGTM";
+          },
+        }),
+      },
+    });
+
+  it("should checkpoint every finished stage and resume after the last one", async () => {
+    const checkpoints: RunCheckpoint[] = [];
+    const before: string[] = [];
+    let verified = 0;
+
+    // The second verification never gets stored, as if the server restarted while it ran
+    const crashed = await orchestratorWith(before).run("Add and subtract", 1, {
+      runId: "run-1",
+      onCheckpoint: (checkpoint) => {
+        checkpoints.push(JSON.parse(JSON.stringify(checkpoint)));
+      },
+      onTask: (task) => {
+        if (task.agentType === "verifier" && ++verified === 2) throw new Error("Server restarting");
+      },
+    });
+
+    expect(crashed.status).toBe("failed");
+    expect(checkpoints.map((c) => `${c.completedStageId}->${c.stageId}`)).toEqual([
+      "plan->code",
+      "code->verify",
+      "verify->code",
+      "code->verify",
+    ]);
+    const last = checkpoints[checkpoints.length - 1];
+    expect(last).toMatchObject({ runId: "run-1", stepIndex: 1, attempt: 1, entryStageId: "code" });
+    expect(last.accepted.map((c) => c.changes[0].path)).toEqual(["src/add.ts"]);
+    expect(last.changeset?.changes[0].path).toBe("src/sub.ts");
+
+    const after: string[] = [];
+    const resumed = await orchestratorWith(after).resume("Add and subtract", 1, last);
+
+    expect(after).toEqual(["verifier"]);
+    expect(resumed.status).toBe("completed");
+    expect(resumed.tasks.map((t) => `${t.agentType}:${t.planStepId ?? "run"}`)).toEqual([
+      "verifier:sub",
+      "executor:run",
+    ]);
+    expect(resumed.tasks[0].parentTaskId).toBe(last.lastTaskId);
+    expect(resumed.tasks[1].parentTaskId).toBe(last.planTaskId);
+  });
+
+  it("should count the usage before the checkpoint against the run's budget", async () => {
+    const checkpoints: RunCheckpoint[] = [];
+    await orchestratorWith([]).run("Add and subtract", 1, { onCheckpoint: (c) => void checkpoints.push(c) });
+    const checkpoint = { ...checkpoints[1], usage: { promptTokens: 900, completionTokens: 100, costUsd: 0 } };
+
+    const resumed = await orchestratorWith([]).resume("Add and subtract", 1, checkpoint, {
+      budget: { limits: { maxRunTokens: 1000 } },
+    });
+
+    expect(resumed.status).toBe("failed");
+    expect(resumed.error).toBe("Budget exceeded: run used 1000 of 1000 tokens");
+    expect(resumed.tasks).toEqual([]);
+    await expect(
+      orchestratorWith([]).resume("Add and subtract", 1, { ...checkpoint, stageId: "review" })
+    ).rejects.toThrow('Pipeline default has no stage "review" to resume at');
+  });
+});
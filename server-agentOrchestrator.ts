@@ -1,68 +1,464 @@
 /**
  * Agent Orchestrator - Manages multi-agent system for AI-powered development
- * Coordinates Planner, Coder, Verifier, and Executor agents
+ * Coordinates Planner, Coder, Tester, Reviewer, Verifier, and Executor agents
  */
 
-interface AgentTask {
+import { randomUUID } from "crypto";
+import {
+  createProviderFromEnv,
+  type AgentModelRole,
+  type ChatMessage,
+  type CompletionResult,
+  type LLMProvider,
+  type TokenUsage,
+} from "./server-llmProviders";
+import { formatPlan, orderPlanSteps, parallelBatch, parsePlan, type Plan, type PlanStep } from "./server-agentPlan";
+import {
+  applyChangesetToFiles,
+  changedPaths,
+  combineChangesets,
+  parseChangeset,
+  summarizeChangeset,
+  touchedPaths,
+  type Changeset,
+  type FileMap,
+} from "./server-changeset";
+import { checkTypes, formatDiagnostic, type TypeDiagnostic } from "./server-typeChecker";
+import {
+  runInSandbox,
+  sandboxOptionsFromEnv,
+  type SandboxOptions,
+  type SandboxResult,
+} from "./server-sandbox";
+import type { ApprovalDecision, ApprovalHandler, ApprovalPolicy, ApprovalRequest } from "./server-approvals";
+import { RunCancelledError, type RunControl } from "./server-runControl";
+import { runEvents, type RunEventBus } from "./server-runEvents";
+import {
+  BudgetExceededError,
+  BudgetMeter,
+  combineUsage,
+  modelPricesFromEnv,
+  usageOf,
+  type Budget,
+  type ModelPrices,
+  type ModelUsage,
+  type UsageTotals,
+} from "./server-usage";
+import { formatMemories, type MemoryContext, type MemoryEntry } from "./server-memorySystem";
+import {
+  defaultPipeline,
+  failureTarget,
+  isStepStage,
+  PIPELINE_END,
+  PIPELINE_FAIL,
+  successTarget,
+  type Pipeline,
+  type PipelineStage,
+} from "./server-pipeline";
+import { verifierRules, type RuleEngine, type RuleSeverity, type VerifierRulesConfig } from "./server-verifierRules";
+import {
+  parseToolCall,
+  toolboxFor,
+  type AgentToolbox,
+  type ToolCallRecord,
+  type ToolPermissions,
+} from "./server-agentTools";
+import {
+  promptRegistry,
+  type PromptOverrides,
+  type PromptRef,
+  type PromptRegistry,
+  type PromptSet,
+  type PromptVariables,
+} from "./server-promptTemplates";
+import { isTestFile, parseTestResults, type TestResult } from "./server-testing";
+import {
+  formatReviewComment,
+  numberLines,
+  parseReview,
+  relatedFiles,
+  type ReviewComment,
+} from "./server-codeReview";
+
+/**
+ * One agent step of a run. parentTaskId links a step to the step that triggered it:
+ * the planner for step coders and the executor, the previous step for a verifier, the rejecting step for a repair.
+ */
+export interface AgentTask {
   id: string;
+  runId: string;
+  parentTaskId?: string;
   projectId: number;
-  agentType: "planner" | "coder" | "verifier" | "executor";
-  status: "pending" | "running" | "completed" | "failed";
+  agentType: "planner" | "coder" | "verifier" | "tester" | "reviewer" | "executor";
+  status: "pending" | "running" | "completed" | "failed" | "cancelled";
   prompt: string;
   result?: string;
   error?: string;
+  attempt: number;
+  planStepId?: string;
+  plan?: Plan;
+  changeset?: Changeset;
+  execution?: SandboxResult;
+  usage?: ModelUsage;
+  /**
+   * The prompt template versions the agent rendered
+   */
+  prompts?: PromptRef[];
+  /**
+   * Every tool the agent called, in order
+   */
+  toolCalls?: ToolCallRecord[];
+  /**
+   * Per-test outcomes read from the test run's output
+   */
+  testResults?: TestResult[];
+  /**
+   * Line-anchored comments from a code review
+   */
+  reviewComments?: ReviewComment[];
   createdAt: Date;
   completedAt?: Date;
 }
 
+const CODE_FILE = /\.(ts|tsx|js|jsx|mts|cts)$/;
+
 interface AgentResponse {
   success: boolean;
   result?: string;
   error?: string;
-  nextAgent?: "planner" | "coder" | "verifier" | "executor";
+  issues?: VerificationIssue[];
+  plan?: Plan;
+  changeset?: Changeset;
+  execution?: SandboxResult;
+  testResults?: TestResult[];
+  reviewComments?: ReviewComment[];
+  prompts?: PromptRef[];
+  nextAgent?: AgentTask["agentType"];
+}
+
+/**
+ * A single problem found by the verifier; compiler diagnostics carry their exact location
+ */
+export interface VerificationIssue {
+  source: "typescript" | "rule" | "model" | "changeset" | "reviewer" | "executor" | "merge" | "test" | "review";
+  message: string;
+  /**
+   * The verifier rule that raised the issue; warnings are reported without failing verification
+   */
+  rule?: string;
+  severity?: RuleSeverity;
+  file?: string;
+  line?: number;
+  column?: number;
+  code?: number;
+}
+
+/**
+ * Per-call hooks for an agent's model requests; onToken switches the request to streaming.
+ * beforeCompletion runs before every request and may throw to stop the agent, e.g. once its budget is spent;
+ * onCompletion sees every finished request, e.g. to account for its tokens.
+ * prompts resolves the agent's prompt templates with the project's overrides; defaults to the latest versions.
+ * tools are offered to the model, which may call them before it answers.
+ */
+export interface AgentCallOptions {
+  signal?: AbortSignal;
+  onToken?: (token: string) => void;
+  beforeCompletion?: () => void;
+  onCompletion?: (messages: ChatMessage[], completion: CompletionResult) => void;
+  prompts?: PromptSet;
+  tools?: AgentToolbox;
+}
+
+/**
+ * Project files before the change, plus the changeset proposed by the coder
+ */
+export interface VerificationInput extends AgentCallOptions {
+  files: FileMap;
+  changeset: Changeset;
+  /**
+   * The project's verifier rule settings
+   */
+  rules?: VerifierRulesConfig;
+}
+
+/**
+ * Project files before the change, plus the changeset to review
+ */
+export interface ReviewInput extends AgentCallOptions {
+  files: FileMap;
+  changeset: Changeset;
+}
+
+/**
+ * Feedback from a failed verification, handed back to the coder for the next attempt.
+ * previousOutput is the rejected changeset; it is absent when the failure came from running the project.
+ */
+export interface RepairContext {
+  attempt: number;
+  previousOutput?: string;
+  issues: VerificationIssue[];
+}
+
+/**
+ * A plan a reviewer rejected, with their feedback, for the planner to revise
+ */
+export interface PlanRevision {
+  plan: Plan;
+  feedback: string;
+}
+
+/**
+ * Inputs to planning besides the request; revision is set when a reviewer rejected the previous plan
+ */
+export interface PlannerContext extends AgentCallOptions {
+  revision?: PlanRevision;
+  memories?: MemoryEntry[];
+}
+
+/**
+ * Everything the coder knows about the piece of work it is asked to implement
+ */
+export interface CoderContext extends AgentCallOptions {
+  plan?: Plan;
+  step?: PlanStep;
+  files?: FileMap;
+  repair?: RepairContext;
+  memories?: MemoryEntry[];
+}
+
+/**
+ * The coder's changeset to write tests for, against the project files it applies to
+ */
+export interface TesterContext extends AgentCallOptions {
+  projectId: number;
+  files: FileMap;
+  changeset: Changeset;
+  plan?: Plan;
+  step?: PlanStep;
+}
+
+/**
+ * Per-run inputs; files is the current content of the project keyed by path.
+ * control cancels or pauses the run between agent steps; runId keys the run's progress events.
+ */
+export interface RunOptions {
+  files?: Record<string, string>;
+  control?: RunControl;
+  runId?: string;
+  /**
+   * Gates from the project's approval policy and the handler that waits for a reviewer's decision
+   */
+  approval?: { policy: ApprovalPolicy; request: ApprovalHandler };
+  /**
+   * Called with each step as soon as it finishes, e.g. to persist it; the run waits for it
+   */
+  onTask?: (task: AgentTask) => void | Promise<void>;
+  /**
+   * The project's pipeline; defaults to planner, coder, verifier, executor
+   */
+  pipeline?: Pipeline;
+  /**
+   * The user the run works for; long-term memory is only read and written when it is set
+   */
+  userId?: number;
+  /**
+   * The project's limits and what it had spent before this run; the run stops once a limit is reached
+   */
+  budget?: { limits: Budget; projectSpend?: UsageTotals };
+  /**
+   * The project's prompt template overrides
+   */
+  prompts?: PromptOverrides;
+  /**
+   * The tools each agent type may call; agent types without an entry use DEFAULT_TOOL_PERMISSIONS
+   */
+  tools?: ToolPermissions;
+  /**
+   * The project's verifier rule settings: which rules run, their severity and options
+   */
+  verifierRules?: VerifierRulesConfig;
+  /**
+   * Called after every finished stage with the run's progress, e.g. to store it; the run waits for it
+   */
+  onCheckpoint?: (checkpoint: RunCheckpoint) => void | Promise<void>;
+}
+
+/**
+ * A run's progress after its last finished stage: enough for resume() to continue it in another process.
+ * Files are not stored; the changesets accepted so far are applied again to the files the run started from.
+ */
+export interface RunCheckpoint {
+  version: 1;
+  runId: string;
+  /**
+   * The stage that just finished and the stage to run next
+   */
+  completedStageId?: string;
+  stageId: string;
+  plan?: Plan;
+  steps: PlanStep[];
+  stepIndex: number;
+  accepted: Changeset[];
+  changeset?: Changeset;
+  attempt: number;
+  failures: Record<string, number>;
+  repair?: RepairContext;
+  revision?: PlanRevision;
+  entryStageId?: string;
+  planTaskId?: string;
+  lastTaskId?: string;
+  /**
+   * Model usage of the run so far, counted against its budget after resuming
+   */
+  usage: UsageTotals;
+}
+
+/**
+ * How a run ended; outcome is the executor's output, or the last step's result when the pipeline has no executor
+ */
+export interface RunResult {
+  tasks: AgentTask[];
+  status: "completed" | "failed" | "cancelled";
+  outcome?: string;
+  error?: string;
+  /**
+   * Memories handed to the planner and coder
+   */
+  memoryIds: string[];
+  /**
+   * Changesets the run accepted, in the order they apply to the files it started from
+   */
+  changesets: Changeset[];
+  /**
+   * Set on runs that failed on an unexpected error, e.g. a provider outage, and may succeed when run again.
+   * Loop limits, rejected approvals and exceeded budgets would fail the same way again.
+   */
+  retryable?: boolean;
+  usage: UsageTotals;
+}
+
+export interface OrchestratorOptions {
+  providers?: Partial<Record<AgentModelRole, LLMProvider>>;
+  maxRepairAttempts?: number;
+  executor?: Omit<SandboxOptions, "signal">;
+  events?: RunEventBus;
+  memory?: MemoryContext;
+  /**
+   * Prices used to estimate the cost of model calls; defaults to modelPricesFromEnv()
+   */
+  prices?: ModelPrices;
+  /**
+   * Templates the agents' prompts are rendered from; defaults to the built-in registry
+   */
+  prompts?: PromptRegistry;
+  /**
+   * How many independent plan steps are generated at once; defaults to AIDE_MAX_PARALLEL_STEPS, or one at a time
+   */
+  maxParallelSteps?: number;
+  /**
+   * Rules the verifier checks changed code with; defaults to the built-in rules
+   */
+  rules?: RuleEngine;
+}
+
+/**
+ * State shared by every agent step of one run
+ */
+interface RunScope {
+  runId: string;
+  projectId: number;
+  control?: RunControl;
+  onTask?: RunOptions["onTask"];
+  approval?: RunOptions["approval"];
+  planTaskId?: string;
+  userId?: number;
+  memories: MemoryEntry[];
+  meter: BudgetMeter;
+  prompts: PromptSet;
+  tools: ToolPermissions;
+  verifierRules?: VerifierRulesConfig;
+  onCheckpoint?: RunOptions["onCheckpoint"];
+}
+
+/**
+ * Where a run is in its pipeline. Coder and verifier stages work on steps[stepIndex];
+ * once every step is accepted they work on the whole plan, e.g. to fix a failed execution.
+ */
+interface PipelineState {
+  plan?: Plan;
+  steps: PlanStep[];
+  stepIndex: number;
+  /**
+   * The files the run started from, and the same files with every accepted changeset applied
+   */
+  files: FileMap;
+  workspace: FileMap;
+  /**
+   * Changesets accepted so far, in the order they were applied to the workspace
+   */
+  accepted: Changeset[];
+  /**
+   * The current step's latest changeset, applied once the flow leaves the step stages
+   */
+  changeset?: Changeset;
+  attempt: number;
+  failures: Map<string, number>;
+  repair?: RepairContext;
+  revision?: PlanRevision;
+  /**
+   * The stage the flow entered the step stages at; each plan step starts there
+   */
+  entryStageId?: string;
+  lastTaskId?: string;
 }
 
+type RunEnd = Omit<RunResult, "tasks" | "memoryIds" | "changesets" | "usage">;
+
+/**
+ * Where a plan step left the step stages for, or how the run ended while it was in them
+ */
+type StepWalk = string | RunEnd;
+
 /**
  * Planner Agent - Analyzes requirements and creates development plan
  */
 export class PlannerAgent {
-  async analyze(prompt: string): Promise<AgentResponse> {
+  constructor(private provider: LLMProvider = createProviderFromEnv("planner")) {}
+
+  async analyze(prompt: string, context: PlannerContext = {}): Promise<AgentResponse> {
+    const { revision, memories } = context;
+    const prompts = promptRenderer(context.prompts);
+
     try {
-      // In real implementation: call Google Gemini Pro API
-      const plan = `
-Development Plan for: ${prompt}
-
-1. Architecture Design
-   - Identify core components
-   - Define data models
-   - Plan API structure
-
-2. Implementation Steps
-   - Setup project structure
-   - Create database schema
-   - Build API endpoints
-   - Develop UI components
-
-3. Testing Strategy
-   - Unit tests
-   - Integration tests
-   - E2E tests
-
-4. Deployment Plan
-   - Build optimization
-   - Performance tuning
-   - Production deployment
-      `;
+      const messages: ChatMessage[] = [
+        { role: "system", content: prompts.render("planner.system") },
+        ...memoryMessages(memories),
+        ...toolMessages(context.tools, prompts),
+        { role: "user", content: prompt },
+      ];
+
+      if (revision) {
+        messages.push(
+          { role: "assistant", content: JSON.stringify(revision.plan) },
+          { role: "user", content: prompts.render("planner.revision", { feedback: revision.feedback }) }
+        );
+      }
+
+      const completion = await completeWithTools(this.provider, messages, context);
+      const plan = parsePlan(completion.content);
 
       return {
         success: true,
-        result: plan,
+        result: formatPlan(plan),
+        plan,
+        prompts: prompts.used,
         nextAgent: "coder",
       };
     } catch (error) {
       return {
         success: false,
         error: `Planner error: ${error}`,
+        prompts: prompts.used,
       };
     }
   }
@@ -72,108 +468,341 @@ Development Plan for: ${prompt}
  * Coder Agent - Generates and implements code
  */
 export class CoderAgent {
-  async generate(prompt: string, plan?: string): Promise<AgentResponse> {
-    try {
-      // In real implementation: call DeepSeek Coder via Hugging Face API
-      const code = `
-// Generated code for: ${prompt}
+  constructor(private provider: LLMProvider = createProviderFromEnv("coder")) {}
 
-export interface ${this.toPascalCase(prompt)} {
-  id: number;
-  name: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+  async generate(prompt: string, context: CoderContext = {}): Promise<AgentResponse> {
+    const { plan, step, files, repair, memories } = context;
+    const prompts = promptRenderer(context.prompts);
 
-export async function create${this.toPascalCase(prompt)}(data: any) {
-  // Implementation will be generated based on requirements
-  return data;
-}
+    try {
+      const messages: ChatMessage[] = [
+        { role: "system", content: prompts.render("coder.system") },
+        ...memoryMessages(memories),
+        ...toolMessages(context.tools, prompts),
+        {
+          role: "user",
+          content: plan ? prompts.render("coder.plan", { request: prompt, plan: formatPlan(plan) }) : prompt,
+        },
+      ];
 
-export async function get${this.toPascalCase(prompt)}(id: number) {
-  // Retrieve implementation
-  return null;
-}
+      if (step) {
+        messages.push({
+          role: "user",
+          content: prompts.render("coder.step", {
+            id: step.id,
+            description: step.description,
+            files: step.files.length ? `\nTarget files: ${step.files.join(", ")}` : "",
+            criteria: step.acceptanceCriteria.length
+              ? `\nAcceptance criteria:\n${step.acceptanceCriteria.map((c) => `- ${c}`).join("\n")}`
+              : "",
+          }),
+        });
 
-export async function update${this.toPascalCase(prompt)}(id: number, data: any) {
-  // Update implementation
-  return data;
-}
+        // Files another step changed alongside this one are shown as merged, so the retry can build on them
+        const merged = repair?.issues.flatMap((issue) => (issue.source === "merge" && issue.file ? [issue.file] : []));
+        const existing = [...new Set([...step.files, ...(merged || [])])].filter((path) => files?.has(path));
+        if (existing.length) {
+          messages.push({
+            role: "user",
+            content: existing.map((path) => `--- ${path}\n${files?.get(path)}`).join("\n\n"),
+          });
+        }
+      }
 
-export async function delete${this.toPascalCase(prompt)}(id: number) {
-  // Delete implementation
-  return true;
-}
-      `;
+      if (repair) {
+        if (repair.previousOutput) messages.push({ role: "assistant", content: repair.previousOutput });
+        messages.push({
+          role: "user",
+          content: prompts.render("coder.repair", {
+            header: repairHeader(repair),
+            issues: repair.issues.map((issue) => `- ${formatIssue(issue)}`).join("\n"),
+          }),
+        });
+      }
+
+      const completion = await completeWithTools(this.provider, messages, context);
+      const changeset = parseChangeset(completion.content);
 
       return {
         success: true,
-        result: code,
+        result: summarizeChangeset(changeset),
+        changeset,
+        prompts: prompts.used,
         nextAgent: "verifier",
       };
     } catch (error) {
       return {
         success: false,
         error: `Coder error: ${error}`,
+        prompts: prompts.used,
       };
     }
   }
-
-  private toPascalCase(str: string): string {
-    return str
-      .split(/\s+/)
-      .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join("");
-  }
 }
 
 /**
  * Verifier Agent - Validates generated code and checks for errors
  */
 export class VerifierAgent {
-  async verify(code: string): Promise<AgentResponse> {
+  constructor(
+    private provider: LLMProvider = createProviderFromEnv("verifier"),
+    private rules: RuleEngine = verifierRules
+  ) {}
+
+  async verify(input: VerificationInput): Promise<AgentResponse> {
+    const prompts = promptRenderer(input.prompts);
+
     try {
-      // In real implementation: call Google Gemini Pro API for verification
-      const issues = this.checkCodeQuality(code);
+      let after: FileMap;
+      try {
+        after = applyChangesetToFiles(input.files, input.changeset);
+      } catch (error) {
+        const message = `Changeset could not be applied: ${error instanceof Error ? error.message : error}`;
+        return this.failed([{ source: "changeset", message }], prompts.used);
+      }
+
+      const changed = changedPaths(input.changeset);
+      const sources = changed
+        .filter((path) => CODE_FILE.test(path))
+        .map((path) => ({ path, content: after.get(path) || "" }));
+      const code = sources.map((file) => `// ${file.path}\n${file.content}`).join("\n\n");
 
-      if (issues.length === 0) {
+      const issues: VerificationIssue[] = this.checkTypes(input.files, after, changed).map((d) => ({
+        source: "typescript",
+        message: d.message,
+        file: d.file,
+        line: d.line,
+        column: d.column,
+        code: d.code,
+      }));
+
+      if (code) {
+        issues.push(
+          ...this.rules.check(sources, input.rules).map((issue) => ({ source: "rule" as const, ...issue })),
+          ...(await this.reviewWithModel(code, prompts, input)).map((message) => ({
+            source: "model" as const,
+            message,
+          }))
+        );
+      }
+
+      const warnings = issues.filter((issue) => issue.severity === "warning");
+      if (warnings.length === issues.length) {
         return {
           success: true,
-          result: "Code verification passed. No issues found.",
+          result: warnings.length
+            ? `Code verification passed with ${warnings.length} warnings:\n${warnings.map(formatIssue).join("\n")}`
+            : "Code verification passed. No issues found.",
+          issues: warnings.length ? warnings : undefined,
+          prompts: prompts.used,
           nextAgent: "executor",
         };
       }
 
+      return this.failed(issues, prompts.used);
+    } catch (error) {
       return {
         success: false,
-        error: `Code verification found ${issues.length} issues:\n${issues.join("\n")}`,
-        nextAgent: "coder", // Send back to coder for fixes
+        error: `Verifier error: ${error}`,
+        prompts: prompts.used,
+      };
+    }
+  }
+
+  private failed(issues: VerificationIssue[], prompts: PromptRef[]): AgentResponse {
+    return {
+      success: false,
+      error: `Code verification found ${issues.length} issues:\n${issues.map(formatIssue).join("\n")}`,
+      issues,
+      prompts,
+      nextAgent: "coder", // Send back to coder for fixes
+    };
+  }
+
+  /**
+   * Compiler diagnostics in the changed files, plus any the change introduced elsewhere
+   */
+  private checkTypes(before: FileMap, after: FileMap, changed: string[]): TypeDiagnostic[] {
+    const diagnostics = checkTypes(after);
+    const elsewhere = diagnostics.filter((d) => !changed.includes(d.file));
+    if (elsewhere.length === 0) return diagnostics;
+
+    // Errors that already existed before the change are not the coder's to fix
+    const key = (d: TypeDiagnostic) => `${d.file}|${d.code}|${d.message}`;
+    const existing = new Set(checkTypes(before).map(key));
+    return diagnostics.filter((d) => changed.includes(d.file) || !existing.has(key(d)));
+  }
+
+  /**
+   * Ask the model for a review; each line starting with "- " is reported as an issue
+   */
+  private async reviewWithModel(code: string, prompts: PromptRenderer, call: AgentCallOptions): Promise<string[]> {
+    const completion = await completeWithTools(
+      this.provider,
+      [
+        { role: "system", content: prompts.render("verifier.review") },
+        ...toolMessages(call.tools, prompts),
+        { role: "user", content: code },
+      ],
+      call
+    );
+
+    return completion.content
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.startsWith("- "))
+      .map((line) => line.slice(2).trim());
+  }
+}
+
+/**
+ * Tester Agent - Writes tests for the acceptance criteria and runs them against the changed code
+ */
+export class TesterAgent {
+  constructor(
+    private provider: LLMProvider = createProviderFromEnv("tester"),
+    private executor: ExecutorAgent = new ExecutorAgent()
+  ) {}
+
+  /**
+   * Ask the model for a changeset of test files, then have the executor run the project with the code and the tests.
+   * Every failing test becomes an issue; a failed run without per-test output is reported as a whole.
+   */
+  async test(prompt: string, context: TesterContext): Promise<AgentResponse> {
+    const { plan, step, changeset } = context;
+    const prompts = promptRenderer(context.prompts);
+
+    try {
+      const after = applyChangesetToFiles(context.files, changeset);
+      const criteria = step ? step.acceptanceCriteria : (plan?.steps || []).flatMap((s) => s.acceptanceCriteria);
+
+      const completion = await completeWithTools(
+        this.provider,
+        [
+          { role: "system", content: prompts.render("tester.system") },
+          ...toolMessages(context.tools, prompts),
+          {
+            role: "user",
+            content: prompts.render("tester.task", {
+              task: step ? `[${step.id}] ${step.description}` : prompt,
+              criteria: criteria.length
+                ? criteria.map((c) => `- ${c}`).join("\n")
+                : "- None given; test the behaviour described above",
+              files: changedPaths(changeset)
+                .map((path) => `--- ${path}\n${after.get(path)}`)
+                .join("\n\n"),
+            }),
+          },
+        ],
+        context
+      );
+      const tests = parseChangeset(completion.content);
+
+      const coded = touchedPaths(changeset);
+      for (const path of touchedPaths(tests)) {
+        if (!isTestFile(path)) throw new Error(`Tester may only write test files, not ${path}`);
+        if (coded.includes(path)) throw new Error(`${path} is already changed by the coder`);
+      }
+
+      const run = await this.executor.execute(applyChangesetToFiles(after, tests), context.projectId, context.signal);
+      const results = run.testResults || [];
+      const failed = results.filter((result) => result.status === "failed");
+      const counts = `${results.length - failed.length} of ${results.length} tests passed`;
+
+      const issues: VerificationIssue[] = failed.length
+        ? failed.map((result) => ({ source: "test", message: `Test failed: ${result.name}` }))
+        : [{ source: "test", message: run.error || "Tests failed" }];
+
+      return {
+        success: run.success,
+        result: `${summarizeChangeset(tests)}\n\n${counts}\n${run.result || ""}`.trim(),
+        error: run.success ? undefined : `Tests failed (${counts}):\n${issues.map(formatIssue).join("\n")}`,
+        issues: run.success ? undefined : issues,
+        changeset: tests,
+        execution: run.execution,
+        testResults: run.testResults,
+        prompts: prompts.used,
+        nextAgent: "verifier",
       };
     } catch (error) {
       return {
         success: false,
-        error: `Verifier error: ${error}`,
+        error: `Tester error: ${error}`,
+        prompts: prompts.used,
       };
     }
   }
+}
 
-  private checkCodeQuality(code: string): string[] {
-    const issues: string[] = [];
+/**
+ * Reviewer Agent - Reviews a changeset the way a teammate would, with comments on line ranges of the changed files
+ */
+export class ReviewerAgent {
+  constructor(private provider: LLMProvider = createProviderFromEnv("reviewer")) {}
 
-    // Check for common issues
-    if (!code.includes("export")) {
-      issues.push("No exports found in code");
-    }
+  /**
+   * The review passes unless a comment has severity error; every comment is returned so the task keeps the trail
+   */
+  async review(input: ReviewInput): Promise<AgentResponse> {
+    const prompts = promptRenderer(input.prompts);
 
-    if (code.includes("any") && code.split("any").length > 3) {
-      issues.push("Excessive use of 'any' type - consider proper typing");
-    }
+    try {
+      const after = applyChangesetToFiles(input.files, input.changeset);
+      const changed = changedPaths(input.changeset);
+      const show = (paths: string[], render: (content: string) => string) =>
+        paths.map((path) => `--- ${path}\n${render(after.get(path) || "")}`).join("\n\n") || "(none)";
 
-    if (!code.includes("error") && !code.includes("try")) {
-      issues.push("No error handling detected");
-    }
+      const completion = await completeWithTools(
+        this.provider,
+        [
+          { role: "system", content: prompts.render("reviewer.system") },
+          ...toolMessages(input.tools, prompts),
+          {
+            role: "user",
+            content: prompts.render("reviewer.changes", {
+              summary: summarizeChangeset(input.changeset),
+              files: show(changed, numberLines),
+              context: show(relatedFiles(after, changed), (content) => content),
+            }),
+          },
+        ],
+        input
+      );
+      const review = parseReview(completion.content, after);
+
+      const blocking = review.comments.filter((comment) => comment.severity === "error");
+      const trail = [
+        review.summary,
+        `${review.comments.length} review comments, ${blocking.length} blocking`,
+        ...review.comments.map(formatReviewComment),
+      ]
+        .filter(Boolean)
+        .join("\n");
 
-    return issues;
+      return {
+        success: blocking.length === 0,
+        result: blocking.length ? undefined : trail,
+        error: blocking.length ? `Code review requested changes:\n${trail}` : undefined,
+        issues: blocking.length
+          ? review.comments.map((comment) => ({
+              source: "review",
+              message: formatReviewComment(comment),
+              severity: comment.severity === "error" ? "error" : "warning",
+              file: comment.path,
+              line: comment.startLine,
+            }))
+          : undefined,
+        reviewComments: review.comments,
+        prompts: prompts.used,
+        nextAgent: blocking.length ? "coder" : "verifier",
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Reviewer error: ${error}`,
+        prompts: prompts.used,
+      };
+    }
   }
 }
 
@@ -181,29 +810,36 @@ export class VerifierAgent {
  * Executor Agent - Executes tasks and manages deployment
  */
 export class ExecutorAgent {
-  async execute(code: string, projectId: number): Promise<AgentResponse> {
+  constructor(private options: Omit<SandboxOptions, "signal"> = sandboxOptionsFromEnv()) {}
+
+  /**
+   * Run the configured command against a complete copy of the project's files
+   */
+  async execute(files: FileMap, projectId: number, signal?: AbortSignal): Promise<AgentResponse> {
     try {
-      // In real implementation: execute code in sandbox environment
-      console.log(`Executing code for project ${projectId}`);
-
-      // Simulate execution
-      const result = `
-Execution Summary:
-- Code compiled successfully
-- All tests passed
-- Build artifacts generated
-- Ready for deployment
-
-Deployment Status:
-- Project built successfully
-- Artifacts: /dist/
-- Build time: 2.34s
-- Bundle size: 145KB
-      `;
+      if (this.options.command[0] === "npm" && !files.has("package.json")) {
+        throw new Error(`Project ${projectId} has no package.json to run "${this.options.command.join(" ")}"`);
+      }
+
+      const execution = await runInSandbox(files, { ...this.options, signal });
+      const success = execution.exitCode === 0 && !execution.timedOut;
+      const testResults = parseTestResults(`${execution.stdout}\n${execution.stderr}`);
+
+      const summary = [
+        `$ ${this.options.command.join(" ")}`,
+        `Exit code: ${execution.exitCode ?? execution.signal}`,
+        `Duration: ${execution.durationMs}ms`,
+        execution.timedOut ? "Timed out" : "",
+      ]
+        .filter(Boolean)
+        .join("\n");
 
       return {
-        success: true,
-        result,
+        success,
+        result: `${summary}\n\n${execution.stdout}`.trim(),
+        error: success ? undefined : `Execution failed\n${summary}\n\n${execution.stderr}`.trim(),
+        execution,
+        testResults: testResults.length ? testResults : undefined,
       };
     } catch (error) {
       return {
@@ -218,108 +854,989 @@ Deployment Status:
  * Agent Orchestrator - Coordinates all agents
  */
 export class AgentOrchestrator {
-  private planner = new PlannerAgent();
-  private coder = new CoderAgent();
-  private verifier = new VerifierAgent();
-  private executor = new ExecutorAgent();
-  private taskQueue: AgentTask[] = [];
+  private planner: PlannerAgent;
+  private coder: CoderAgent;
+  private verifier: VerifierAgent;
+  private tester: TesterAgent;
+  private reviewer: ReviewerAgent;
+  private executor: ExecutorAgent;
+  private executorOptions: Omit<SandboxOptions, "signal">;
+  private events: RunEventBus;
+
+  private pipeline: Pipeline;
+  private memory?: MemoryContext;
+  private prices: ModelPrices;
+  private prompts: PromptRegistry;
+  private maxParallelSteps: number;
+
+  /**
+   * Providers can be swapped per agent; unset agents are configured from the environment.
+   * maxRepairAttempts sets how often the default pipeline's verifier may send a step back to the coder.
+   */
+  constructor(options: OrchestratorOptions = {}) {
+    const providers = options.providers || {};
+    this.planner = new PlannerAgent(providers.planner);
+    this.coder = new CoderAgent(providers.coder);
+    this.verifier = new VerifierAgent(providers.verifier, options.rules);
+    this.executorOptions = options.executor || sandboxOptionsFromEnv();
+    this.executor = new ExecutorAgent(this.executorOptions);
+    this.tester = new TesterAgent(providers.tester, this.executor);
+    this.reviewer = new ReviewerAgent(providers.reviewer);
+    this.events = options.events || runEvents;
+    this.pipeline = defaultPipeline(Math.max(1, options.maxRepairAttempts ?? 3));
+    this.memory = options.memory;
+    this.prices = options.prices || modelPricesFromEnv();
+    this.prompts = options.prompts || promptRegistry;
+    this.maxParallelSteps = Math.max(1, options.maxParallelSteps ?? (Number(process.env.AIDE_MAX_PARALLEL_STEPS) || 1));
+  }
+
+  async orchestrate(prompt: string, projectId: number, options: RunOptions = {}): Promise<AgentTask[]> {
+    return (await this.run(prompt, projectId, options)).tasks;
+  }
+
+  /**
+   * Run the pipeline from its first stage and report how the run ended
+   */
+  async run(prompt: string, projectId: number, options: RunOptions = {}): Promise<RunResult> {
+    const pipeline = options.pipeline || this.pipeline;
+    return this.runFrom(prompt, projectId, pipeline, pipeline.stages[0].id, newPipelineState(options), options);
+  }
+
+  /**
+   * Run an existing (possibly edited) plan without re-planning, starting at the stage that follows the planner.
+   * When stepIds is given only those steps are re-generated.
+   */
+  async executePlan(
+    prompt: string,
+    projectId: number,
+    plan: Plan,
+    stepIds?: string[],
+    options: RunOptions = {}
+  ): Promise<AgentTask[]> {
+    const pipeline = options.pipeline || this.pipeline;
+    const planner = pipeline.stages.find((stage) => stage.agent === "planner");
+    const start = planner ? successTarget(pipeline, planner) : pipeline.stages[0].id;
+
+    const state = newPipelineState(options);
+    adoptPlan(state, plan, stepIds);
 
-  async orchestrate(prompt: string, projectId: number): Promise<AgentTask[]> {
+    return (await this.runFrom(prompt, projectId, pipeline, start, state, options)).tasks;
+  }
+
+  /**
+   * Continue a run from a checkpoint under the same run id, starting at the stage it names.
+   * options.files must be the files the run started from; finished stages are not run again.
+   */
+  async resume(
+    prompt: string,
+    projectId: number,
+    checkpoint: RunCheckpoint,
+    options: RunOptions = {}
+  ): Promise<RunResult> {
+    if (checkpoint.version !== 1) throw new Error(`Unsupported checkpoint version: ${checkpoint.version}`);
+
+    const pipeline = options.pipeline || this.pipeline;
+    if (!pipeline.stages.some((stage) => stage.id === checkpoint.stageId)) {
+      throw new Error(`Pipeline ${pipeline.name} has no stage "${checkpoint.stageId}" to resume at`);
+    }
+
+    return this.runFrom(
+      prompt,
+      projectId,
+      pipeline,
+      checkpoint.stageId,
+      restoreState(checkpoint, options),
+      { ...options, runId: options.runId || checkpoint.runId },
+      checkpoint
+    );
+  }
+
+  private async runFrom(
+    prompt: string,
+    projectId: number,
+    pipeline: Pipeline,
+    start: string,
+    state: PipelineState,
+    options: RunOptions,
+    resumed?: RunCheckpoint
+  ): Promise<RunResult> {
     const tasks: AgentTask[] = [];
+    const scope = this.startRun(prompt, projectId, options, resumed);
+    let end: RunEnd;
 
     try {
-      // Step 1: Planner analyzes requirements
-      const planTask: AgentTask = {
-        id: `plan-${Date.now()}`,
-        projectId,
-        agentType: "planner",
-        status: "running",
-        prompt,
-        createdAt: new Date(),
-      };
+      scope.memories = await this.recall(scope, prompt);
+      end = await this.runPipeline(tasks, scope, prompt, pipeline, state, start, resumed?.completedStageId);
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        end = { status: "failed", error: error.message };
+      } else {
+        if (!(error instanceof RunCancelledError)) console.error("Orchestration error:", error);
+        end = {
+          status: "failed",
+          error: `Orchestration error: ${error instanceof Error ? error.message : error}`,
+          retryable: true,
+        };
+      }
+    }
+    if (scope.control?.signal.aborted) end = { status: "cancelled" };
 
-      const planResult = await this.planner.analyze(prompt);
-      planTask.status = planResult.success ? "completed" : "failed";
-      planTask.result = planResult.result;
-      planTask.error = planResult.error;
-      planTask.completedAt = new Date();
-      tasks.push(planTask);
-
-      if (!planResult.success) return tasks;
-
-      // Step 2: Coder generates implementation
-      const codeTask: AgentTask = {
-        id: `code-${Date.now()}`,
-        projectId,
-        agentType: "coder",
-        status: "running",
-        prompt: planResult.result || "",
-        createdAt: new Date(),
-      };
+    this.events.publish({ type: "run:finish", runId: scope.runId, projectId, status: end.status, error: end.error });
+    return {
+      tasks,
+      ...end,
+      memoryIds: scope.memories.map((memory) => memory.id),
+      changesets: state.accepted,
+      usage: scope.meter.totals,
+    };
+  }
 
-      const codeResult = await this.coder.generate(prompt, planResult.result);
-      codeTask.status = codeResult.success ? "completed" : "failed";
-      codeTask.result = codeResult.result;
-      codeTask.error = codeResult.error;
-      codeTask.completedAt = new Date();
-      tasks.push(codeTask);
-
-      if (!codeResult.success) return tasks;
-
-      // Step 3: Verifier validates code
-      const verifyTask: AgentTask = {
-        id: `verify-${Date.now()}`,
-        projectId,
-        agentType: "verifier",
-        status: "running",
-        prompt: codeResult.result || "",
-        createdAt: new Date(),
-      };
+  /**
+   * Walk the pipeline from start until a transition reaches "$end" or "$fail", checkpointing after every stage.
+   * completed is the stage that ran before start, when the walk continues a resumed run.
+   */
+  private async runPipeline(
+    tasks: AgentTask[],
+    scope: RunScope,
+    prompt: string,
+    pipeline: Pipeline,
+    state: PipelineState,
+    start: string,
+    completed?: string
+  ): Promise<RunEnd> {
+    const stages = new Map(pipeline.stages.map((stage) => [stage.id, stage]));
+    let stageId = start;
+    let previous = completed ? stages.get(completed) : undefined;
+
+    while (stageId !== PIPELINE_END && stageId !== PIPELINE_FAIL) {
+      const stage = stages.get(stageId);
+      if (!stage) throw new Error(`Pipeline ${pipeline.name} has no stage "${stageId}"`);
+      if (isStepStage(stage) && !isStepStage(previous)) {
+        state.entryStageId = stage.id;
+
+        if (this.maxParallelSteps > 1 && state.steps.length - state.stepIndex > 1) {
+          const result = await this.runStepsInParallel(tasks, scope, prompt, pipeline, state, stages);
+          if (typeof result !== "string") return result;
+          previous = undefined;
+          stageId = result;
+          await this.checkpoint(scope, state, stageId);
+          continue;
+        }
+      }
+
+      const result = await this.runStage(tasks, scope, prompt, stage, state);
+      if (typeof result === "object") return result;
+
+      previous = stage;
+      if (typeof result === "string") stageId = result;
+      else if (result) stageId = await this.afterSuccess(scope, pipeline, stage, state, stages);
+      else stageId = this.afterFailure(stage, state);
+      await this.checkpoint(scope, state, stageId, stage.id);
+    }
+
+    const last = tasks[tasks.length - 1];
+    if (stageId === PIPELINE_FAIL) {
+      return { status: "failed", error: last?.error || "Orchestration did not complete" };
+    }
+
+    const executed = [...tasks].reverse().find((task) => task.agentType === "executor" && task.status === "completed");
+    return { status: "completed", outcome: (executed || last)?.result };
+  }
+
+  /**
+   * Run one stage's agent against the pipeline state. Returns whether it succeeded, the stage a reviewer
+   * sent the run back to, or how the run ended when a reviewer stopped it.
+   */
+  private async runStage(
+    tasks: AgentTask[],
+    scope: RunScope,
+    prompt: string,
+    stage: PipelineStage,
+    state: PipelineState
+  ): Promise<boolean | string | RunEnd> {
+    const step = state.steps[state.stepIndex];
+
+    switch (stage.agent) {
+      case "planner": {
+        // A rejected plan goes back to the planner with the feedback
+        for (;;) {
+          const revision = state.revision;
+          const { task, response } = await this.runTask(
+            tasks,
+            scope,
+            {
+              idPrefix: "plan",
+              agentType: "planner",
+              prompt,
+              parentTaskId: scope.planTaskId,
+              files: () => state.files,
+            },
+            (call) => this.planner.analyze(prompt, { revision, memories: scope.memories, ...call })
+          );
+          scope.planTaskId = task.id;
+          state.lastTaskId = task.id;
+
+          if (!response.success || !response.plan) return false;
+
+          const decision = await this.approve(scope, { gate: "plan", plan: response.plan });
+          if (decision.approved) {
+            adoptPlan(state, response.plan);
+            return true;
+          }
+          state.revision = { plan: response.plan, feedback: decision.feedback };
+        }
+      }
+
+      case "coder": {
+        const attempt = ++state.attempt;
+        const repair = state.repair;
+        const { task, response } = await this.runTask(
+          tasks,
+          scope,
+          {
+            idPrefix: "code",
+            agentType: "coder",
+            prompt: step?.description ?? prompt,
+            attempt,
+            planStepId: step?.id,
+            parentTaskId: repair ? state.lastTaskId : scope.planTaskId,
+            files: () => state.workspace,
+          },
+          (call) =>
+            this.coder.generate(prompt, {
+              plan: state.plan,
+              step,
+              files: state.workspace,
+              repair,
+              memories: scope.memories,
+              ...call,
+            })
+        );
+        state.lastTaskId = task.id;
+
+        if (!response.success || !response.changeset) return false;
+        state.changeset = response.changeset;
+        state.repair = undefined;
+        return true;
+      }
+
+      case "verifier": {
+        const changeset = state.changeset;
+        if (!changeset) throw new Error(`Stage ${stage.id} has no changeset to verify`);
+
+        const { task, response } = await this.runTask(
+          tasks,
+          scope,
+          {
+            idPrefix: "verify",
+            agentType: "verifier",
+            prompt: summarizeChangeset(changeset),
+            attempt: state.attempt,
+            planStepId: step?.id,
+            parentTaskId: state.lastTaskId,
+            files: () => applyChangesetToFiles(state.workspace, changeset),
+          },
+          (call) => this.verifier.verify({ files: state.workspace, changeset, rules: scope.verifierRules, ...call })
+        );
+        state.lastTaskId = task.id;
+        await this.learn(
+          scope,
+          step?.description ?? prompt,
+          response.success ? summarizeChangeset(changeset) : response.error || "Verification failed",
+          response.success
+        );
+
+        if (!response.success) {
+          state.repair = {
+            attempt: state.attempt,
+            previousOutput: JSON.stringify(changeset),
+            issues: response.issues || [{ source: "model", message: response.error || "Verification failed" }],
+          };
+        }
+        return response.success;
+      }
+
+      case "tester": {
+        const changeset = state.changeset;
+        if (!changeset) throw new Error(`Stage ${stage.id} has no changeset to test`);
 
-      const verifyResult = await this.verifier.verify(codeResult.result || "");
-      verifyTask.status = verifyResult.success ? "completed" : "failed";
-      verifyTask.result = verifyResult.result;
-      verifyTask.error = verifyResult.error;
-      verifyTask.completedAt = new Date();
-      tasks.push(verifyTask);
-
-      if (!verifyResult.success) return tasks;
-
-      // Step 4: Executor deploys
-      const execTask: AgentTask = {
-        id: `exec-${Date.now()}`,
-        projectId,
-        agentType: "executor",
-        status: "running",
-        prompt: codeResult.result || "",
-        createdAt: new Date(),
+        const { task, response } = await this.runTask(
+          tasks,
+          scope,
+          {
+            idPrefix: "test",
+            agentType: "tester",
+            prompt: step?.description ?? prompt,
+            attempt: state.attempt,
+            planStepId: step?.id,
+            parentTaskId: state.lastTaskId,
+            files: () => applyChangesetToFiles(state.workspace, changeset),
+          },
+          (call) =>
+            this.tester.test(prompt, {
+              projectId: scope.projectId,
+              files: state.workspace,
+              changeset,
+              plan: state.plan,
+              step,
+              ...call,
+            })
+        );
+        state.lastTaskId = task.id;
+
+        if (!response.success || !response.changeset) {
+          state.repair = {
+            attempt: state.attempt,
+            previousOutput: JSON.stringify(changeset),
+            issues: response.issues || [{ source: "test", message: response.error || "Tests failed" }],
+          };
+          return false;
+        }
+        // The tests ship with the code: later stages verify, approve and apply both
+        state.changeset = combineChangesets(changeset, response.changeset);
+        return true;
+      }
+
+      case "reviewer": {
+        const changeset = state.changeset;
+        if (!changeset) throw new Error(`Stage ${stage.id} has no changeset to review`);
+
+        const { task, response } = await this.runTask(
+          tasks,
+          scope,
+          {
+            idPrefix: "review",
+            agentType: "reviewer",
+            prompt: summarizeChangeset(changeset),
+            attempt: state.attempt,
+            planStepId: step?.id,
+            parentTaskId: state.lastTaskId,
+            files: () => applyChangesetToFiles(state.workspace, changeset),
+          },
+          (call) => this.reviewer.review({ files: state.workspace, changeset, ...call })
+        );
+        state.lastTaskId = task.id;
+
+        if (!response.success) {
+          state.repair = {
+            attempt: state.attempt,
+            previousOutput: JSON.stringify(changeset),
+            issues: response.issues || [{ source: "review", message: response.error || "Code review failed" }],
+          };
+        }
+        return response.success;
+      }
+
+      case "executor": {
+        // A rejected execution goes back to the stage the step stages were entered at, with the feedback
+        const decision = await this.approve(scope, { gate: "execution" });
+        if (!decision.approved) {
+          if (!state.entryStageId) return { status: "failed", error: `Execution rejected: ${decision.feedback}` };
+          state.repair = { attempt: state.attempt, issues: [{ source: "reviewer", message: decision.feedback }] };
+          return state.entryStageId;
+        }
+
+        const files = state.workspace;
+        const { task, response } = await this.runTask(
+          tasks,
+          scope,
+          { idPrefix: "exec", agentType: "executor", prompt, parentTaskId: scope.planTaskId },
+          (call) => this.executor.execute(files, scope.projectId, call.signal)
+        );
+        state.lastTaskId = task.id;
+        await this.learn(scope, prompt, (response.success ? response.result : response.error) || "", response.success);
+
+        if (!response.success) {
+          state.repair = {
+            attempt: state.attempt,
+            issues: [{ source: "executor", message: response.error || "Execution failed" }],
+          };
+        }
+        return response.success;
+      }
+    }
+  }
+
+  /**
+   * Follow a success transition. Leaving the step stages accepts the step's changeset, once the changeset
+   * gate approves it, and starts the next plan step at the stage the flow entered on.
+   * A rejected changeset goes back to that stage with the feedback and does not count as a failure.
+   */
+  private async afterSuccess(
+    scope: RunScope,
+    pipeline: Pipeline,
+    stage: PipelineStage,
+    state: PipelineState,
+    stages: Map<string, PipelineStage>
+  ): Promise<string> {
+    const target = successTarget(pipeline, stage);
+    const changeset = state.changeset;
+    if (!isStepStage(stage) || isStepStage(stages.get(target)) || !changeset) return target;
+
+    if (!(await this.acceptChangeset(scope, pipeline, state, changeset))) return state.entryStageId || target;
+    return state.stepIndex < state.steps.length && state.entryStageId ? state.entryStageId : target;
+  }
+
+  /**
+   * Apply the current step's changeset once the changeset gate approves it and move on to the next step.
+   * A rejection leaves the feedback as the step's repair context.
+   */
+  private async acceptChangeset(
+    scope: RunScope,
+    pipeline: Pipeline,
+    state: PipelineState,
+    changeset: Changeset
+  ): Promise<boolean> {
+    const step = state.steps[state.stepIndex];
+    const decision = await this.approve(scope, { gate: "changeset", changeset, planStepId: step?.id });
+    if (!decision.approved) {
+      state.repair = {
+        attempt: state.attempt,
+        previousOutput: JSON.stringify(changeset),
+        issues: [{ source: "reviewer", message: decision.feedback }],
       };
+      return false;
+    }
+
+    state.workspace = applyChangesetToFiles(state.workspace, changeset);
+    state.accepted = [...state.accepted, changeset];
+    state.changeset = undefined;
+    state.attempt = 0;
+    state.repair = undefined;
+    pipeline.stages.filter(isStepStage).forEach((s) => state.failures.delete(s.id));
+
+    if (step) state.stepIndex++;
+    return true;
+  }
+
+  /**
+   * Work through the remaining plan steps in batches of independent steps. The steps of a batch walk the
+   * step stages at the same time, each on its own copy of the state, and their changesets are merged in plan order.
+   * A step that edits a file an earlier step of the batch changed, or whose changeset a reviewer rejects,
+   * walks the step stages again on the merged files with the conflict as its repair context.
+   * Returns the stage the flow leaves the step stages for, or how the run ended.
+   */
+  private async runStepsInParallel(
+    tasks: AgentTask[],
+    scope: RunScope,
+    prompt: string,
+    pipeline: Pipeline,
+    state: PipelineState,
+    stages: Map<string, PipelineStage>
+  ): Promise<string | RunEnd> {
+    const entry = state.entryStageId || pipeline.stages[0].id;
+    let exit: string = PIPELINE_END;
+
+    while (state.stepIndex < state.steps.length) {
+      const batch = parallelBatch(state.steps.slice(state.stepIndex), this.maxParallelSteps);
+      const forks = batch.map((_, i) => forkState(state, state.stepIndex + i));
+      const shares = scope.meter.reserve(forks.length);
+
+      const settled = await Promise.allSettled(
+        forks.map((fork, i) =>
+          this.walkStepStages(tasks, { ...scope, meter: shares[i] }, prompt, pipeline, fork, stages, entry)
+        )
+      );
+      const rejected = settled.find((result) => result.status === "rejected");
+      if (rejected) throw rejected.reason;
+
+      // Paths changed by the batch's merged steps, and which step changed them
+      const merged = new Map<string, string>();
+
+      for (let i = 0; i < forks.length; i++) {
+        const fork = forks[i];
+        let walk = (settled[i] as PromiseFulfilledResult<StepWalk>).value;
+
+        for (;;) {
+          if (typeof walk === "object" || !fork.changeset) {
+            Object.assign(state, {
+              attempt: fork.attempt,
+              failures: fork.failures,
+              repair: fork.repair,
+              lastTaskId: fork.lastTaskId,
+            });
+            return walk;
+          }
+
+          const changeset = fork.changeset;
+          const conflicts = touchedPaths(changeset).filter((path) => merged.has(path));
+          state.attempt = fork.attempt;
+          state.lastTaskId = fork.lastTaskId;
+
+          if (conflicts.length === 0 && (await this.acceptChangeset(scope, pipeline, state, changeset))) {
+            touchedPaths(changeset).forEach((path) => merged.set(path, batch[i].id));
+            exit = walk;
+            break;
+          }
+
+          fork.repair = conflicts.length
+            ? {
+                attempt: fork.attempt,
+                previousOutput: JSON.stringify(changeset),
+                issues: conflicts.map((path) => ({
+                  source: "merge" as const,
+                  file: path,
+                  message: `${path} was also changed by step [${merged.get(path)}], generated at the same time`,
+                })),
+              }
+            : state.repair;
+          fork.workspace = state.workspace;
+          fork.changeset = undefined;
+          state.repair = undefined;
+          walk = await this.walkStepStages(tasks, scope, prompt, pipeline, fork, stages, entry);
+        }
+      }
+
+      // Resuming at the entry stage runs the remaining steps in parallel again
+      if (state.stepIndex < state.steps.length) await this.checkpoint(scope, state, entry);
+    }
+
+    return exit;
+  }
+
+  /**
+   * Walk one plan step through the step stages, from the stage the flow entered them at.
+   * Returns the stage the step leaves them for: with a changeset when it left on success.
+   */
+  private async walkStepStages(
+    tasks: AgentTask[],
+    scope: RunScope,
+    prompt: string,
+    pipeline: Pipeline,
+    state: PipelineState,
+    stages: Map<string, PipelineStage>,
+    start: string
+  ): Promise<StepWalk> {
+    let stageId = start;
+
+    for (;;) {
+      const stage = stages.get(stageId);
+      if (!stage) throw new Error(`Pipeline ${pipeline.name} has no stage "${stageId}"`);
+
+      const result = await this.runStage(tasks, scope, prompt, stage, state);
+      if (typeof result !== "boolean") return result;
+
+      stageId = result ? successTarget(pipeline, stage) : this.afterFailure(stage, state);
+      if (!result) state.changeset = undefined;
+      if (!isStepStage(stages.get(stageId))) return stageId;
+    }
+  }
+
+  /**
+   * Hand the run's progress to onCheckpoint before the next stage runs; runs that end need none
+   */
+  private async checkpoint(scope: RunScope, state: PipelineState, stageId: string, completed?: string): Promise<void> {
+    if (!scope.onCheckpoint || stageId === PIPELINE_END || stageId === PIPELINE_FAIL) return;
+
+    await scope.onCheckpoint({
+      version: 1,
+      runId: scope.runId,
+      completedStageId: completed,
+      stageId,
+      plan: state.plan,
+      steps: state.steps,
+      stepIndex: state.stepIndex,
+      accepted: state.accepted,
+      changeset: state.changeset,
+      attempt: state.attempt,
+      failures: Object.fromEntries(state.failures),
+      repair: state.repair,
+      revision: state.revision,
+      entryStageId: state.entryStageId,
+      planTaskId: scope.planTaskId,
+      lastTaskId: state.lastTaskId,
+      usage: scope.meter.totals,
+    });
+  }
+
+  /**
+   * Follow a failure transition unless the stage has reached its loop limit
+   */
+  private afterFailure(stage: PipelineStage, state: PipelineState): string {
+    const failures = (state.failures.get(stage.id) ?? 0) + 1;
+    state.failures.set(stage.id, failures);
+    return failures < stage.maxFailures ? failureTarget(stage) : PIPELINE_FAIL;
+  }
+
+  /**
+   * Run one agent step, record it as an AgentTask with its model usage and publish its progress events.
+   * The run control and the budget are checked before the step starts;
+   * a step interrupted by cancellation is recorded as cancelled.
+   */
+  private async runTask(
+    tasks: AgentTask[],
+    scope: RunScope,
+    options: {
+      idPrefix: string;
+      agentType: AgentTask["agentType"];
+      prompt: string;
+      attempt?: number;
+      planStepId?: string;
+      parentTaskId?: string;
+      /**
+       * The files the agent's tools see
+       */
+      files?: () => FileMap;
+    },
+    run: (call: AgentCallOptions) => Promise<AgentResponse>
+  ): Promise<{ task: AgentTask; response: AgentResponse }> {
+    const { control, runId, projectId, meter } = scope;
+    await control?.checkpoint();
+    meter.check();
+
+    const attempt = options.attempt ?? 1;
+    const task: AgentTask = {
+      id: `${options.idPrefix}-${randomUUID()}`,
+      runId,
+      parentTaskId: options.parentTaskId,
+      projectId,
+      agentType: options.agentType,
+      status: "running",
+      prompt: options.prompt,
+      attempt,
+      planStepId: options.planStepId,
+      createdAt: new Date(),
+    };
+
+    const event = { runId, projectId, taskId: task.id, agentType: task.agentType };
+    this.events.publish({ ...event, type: "agent:start", attempt, planStepId: task.planStepId });
+
+    const tools =
+      options.files && options.agentType !== "executor"
+        ? toolboxFor(options.agentType, scope.tools, {
+            projectId,
+            files: options.files,
+            userId: scope.userId,
+            memory: this.memory,
+            executor: this.executorOptions,
+            signal: control?.signal,
+          })
+        : undefined;
+
+    // Usage is metered per request: an agent that runs out of budget part way stops before its next request
+    let usage: ModelUsage | undefined;
+    let exceeded: BudgetExceededError | undefined;
+    const response = await run({
+      signal: control?.signal,
+      onToken: (token) => this.events.publish({ ...event, type: "agent:token", token }),
+      beforeCompletion: () => {
+        exceeded = meter.exceeded();
+        if (exceeded) throw exceeded;
+      },
+      onCompletion: (messages, completion) => {
+        const spent = usageOf(messages, completion, this.prices);
+        usage = combineUsage(usage, spent);
+        meter.record(spent);
+      },
+      prompts: scope.prompts,
+      tools,
+    }).catch((error): AgentResponse => {
+      if (!exceeded || error !== exceeded) throw error;
+      return { success: false, error: exceeded.message };
+    });
+    task.status = response.success ? "completed" : "failed";
+    task.result = response.result;
+    task.error = response.error;
+    task.plan = response.plan;
+    task.changeset = response.changeset;
+    task.execution = response.execution;
+    task.testResults = response.testResults;
+    task.reviewComments = response.reviewComments;
+    task.usage = usage;
+    task.prompts = response.prompts;
+    task.toolCalls = tools?.calls.length ? tools.calls : undefined;
+    task.completedAt = new Date();
+    tasks.push(task);
+
+    if (control?.signal.aborted) task.status = "cancelled";
+    await scope.onTask?.(task);
+    this.events.publish({
+      ...event,
+      type: "agent:finish",
+      status: task.status,
+      result: task.result,
+      error: task.error,
+      usage: task.usage,
+    });
+    control?.throwIfCancelled();
+    if (exceeded) throw exceeded;
+
+    return { task, response };
+  }
+
+  /**
+   * Wait for a reviewer when the run's policy gates this point; ungated points are approved immediately
+   */
+  private async approve(
+    scope: RunScope,
+    request: Omit<ApprovalRequest, "runId" | "projectId">
+  ): Promise<ApprovalDecision> {
+    const { approval, control, runId, projectId } = scope;
+    if (!approval?.policy.gates.includes(request.gate)) return { approved: true };
+
+    await control?.checkpoint();
+    this.events.publish({
+      type: "approval:requested",
+      runId,
+      projectId,
+      gate: request.gate,
+      planStepId: request.planStepId,
+    });
+
+    const decision = await approval.request({ ...request, runId, projectId }, control?.signal);
+    control?.throwIfCancelled();
+
+    this.events.publish({
+      type: "approval:resolved",
+      runId,
+      projectId,
+      gate: request.gate,
+      approved: decision.approved,
+      feedback: decision.approved ? undefined : decision.feedback,
+    });
+    return decision;
+  }
+
+  /**
+   * Lessons, preferences and earlier solutions relevant to the request, for the planner and coder
+   */
+  private async recall(scope: RunScope, prompt: string): Promise<MemoryEntry[]> {
+    if (!this.memory || scope.userId === undefined) return [];
+    return this.memory.getContextForTask(scope.userId, scope.projectId, prompt);
+  }
 
-      const execResult = await this.executor.execute(codeResult.result || "", projectId);
-      execTask.status = execResult.success ? "completed" : "failed";
-      execTask.result = execResult.result;
-      execTask.error = execResult.error;
-      execTask.completedAt = new Date();
-      tasks.push(execTask);
+  /**
+   * Store a verified or executed result as a solution and a failure as an error.
+   * Memory is best effort: a failure to store does not fail the run.
+   */
+  private async learn(scope: RunScope, description: string, result: string, success: boolean): Promise<void> {
+    if (!this.memory || scope.userId === undefined) return;
 
-      return tasks;
+    try {
+      await this.memory.learnFromExecution(scope.userId, scope.projectId, description, result, success);
     } catch (error) {
-      console.error("Orchestration error:", error);
-      return tasks;
+      console.error("Memory error:", error);
     }
   }
 
-  getTaskQueue(): AgentTask[] {
-    return this.taskQueue;
+  private startRun(prompt: string, projectId: number, options: RunOptions, resumed?: RunCheckpoint): RunScope {
+    const scope: RunScope = {
+      runId: options.runId || `run-${randomUUID()}`,
+      projectId,
+      control: options.control,
+      onTask: options.onTask,
+      approval: options.approval,
+      planTaskId: resumed?.planTaskId,
+      userId: options.userId,
+      memories: [],
+      meter: new BudgetMeter(options.budget?.limits, options.budget?.projectSpend, resumed?.usage),
+      prompts: this.prompts.forProject(options.prompts),
+      tools: options.tools || {},
+      verifierRules: options.verifierRules,
+      onCheckpoint: options.onCheckpoint,
+    };
+    this.events.publish({ type: "run:start", runId: scope.runId, projectId, prompt });
+    return scope;
+  }
+}
+
+function newPipelineState(options: RunOptions): PipelineState {
+  const files: FileMap = new Map(Object.entries(options.files || {}));
+  return { steps: [], stepIndex: 0, files, workspace: files, accepted: [], attempt: 0, failures: new Map() };
+}
+
+/**
+ * The pipeline state a checkpoint was taken in, with the accepted changesets applied to the run's files again
+ */
+function restoreState(checkpoint: RunCheckpoint, options: RunOptions): PipelineState {
+  const state = newPipelineState(options);
+  return {
+    ...state,
+    plan: checkpoint.plan,
+    steps: checkpoint.steps,
+    stepIndex: checkpoint.stepIndex,
+    workspace: checkpoint.accepted.reduce(applyChangesetToFiles, state.files),
+    accepted: checkpoint.accepted,
+    changeset: checkpoint.changeset,
+    attempt: checkpoint.attempt,
+    failures: new Map(Object.entries(checkpoint.failures)),
+    repair: checkpoint.repair,
+    revision: checkpoint.revision,
+    entryStageId: checkpoint.entryStageId,
+    lastTaskId: checkpoint.lastTaskId,
+  };
+}
+
+/**
+ * A copy of the state for one plan step of a parallel batch, starting from the files merged so far
+ */
+function forkState(state: PipelineState, stepIndex: number): PipelineState {
+  return {
+    ...state,
+    stepIndex,
+    changeset: undefined,
+    attempt: 0,
+    repair: undefined,
+    failures: new Map(state.failures),
+  };
+}
+
+/**
+ * Start over on a new plan: its steps run in dependency order against the files the run started from
+ */
+function adoptPlan(state: PipelineState, plan: Plan, stepIds?: string[]): void {
+  state.plan = plan;
+  state.steps = orderPlanSteps(plan).filter((step) => !stepIds || stepIds.includes(step.id));
+  state.stepIndex = 0;
+  state.workspace = state.files;
+  state.accepted = [];
+  state.changeset = undefined;
+  state.attempt = 0;
+  state.repair = undefined;
+  state.revision = undefined;
+}
+
+/**
+ * Renders an agent's prompts and remembers which template versions it used
+ */
+function promptRenderer(prompts: PromptSet = promptRegistry.forProject()) {
+  const used: PromptRef[] = [];
+  return {
+    used,
+    render(id: string, variables?: PromptVariables): string {
+      const { text, ref } = prompts.render(id, variables);
+      used.push(ref);
+      return text;
+    },
+  };
+}
+
+type PromptRenderer = ReturnType<typeof promptRenderer>;
+
+function toolMessages(tools: AgentToolbox | undefined, prompts: PromptRenderer): ChatMessage[] {
+  return tools?.available.length
+    ? [{ role: "system", content: prompts.render("agent.tools", { tools: tools.describe() }) }]
+    : [];
+}
+
+function memoryMessages(memories: MemoryEntry[] | undefined): ChatMessage[] {
+  return memories?.length ? [{ role: "system", content: formatMemories(memories) }] : [];
+}
+
+function repairHeader(repair: RepairContext): string {
+  if (repair.issues.every((issue) => issue.source === "reviewer")) {
+    // Attempts start over once a changeset is accepted, so a rejection without one is of the whole run
+    return repair.attempt
+      ? `A reviewer rejected attempt ${repair.attempt}:\n`
+      : "A reviewer rejected running the project:\n";
+  }
+  if (repair.issues.every((issue) => issue.source === "executor")) {
+    return "Running the project failed:\n";
+  }
+  if (repair.issues.every((issue) => issue.source === "test")) {
+    return `Tests of attempt ${repair.attempt} failed:\n`;
+  }
+  if (repair.issues.every((issue) => issue.source === "review")) {
+    return `A code review of attempt ${repair.attempt} requested changes:\n`;
+  }
+  if (repair.issues.every((issue) => issue.source === "merge")) {
+    return `Attempt ${repair.attempt} conflicts with steps implemented alongside it:\n`;
+  }
+  return `Verification of attempt ${repair.attempt} failed with these issues:\n`;
+}
+
+/**
+ * Complete a chat, running the tools the model asks for and handing it their results until it answers.
+ * Once the toolbox's call limit is reached the model is told so, and its next reply is returned as is.
+ */
+async function completeWithTools(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  call: AgentCallOptions
+): Promise<CompletionResult> {
+  const conversation = [...messages];
+  const { tools } = call;
+
+  for (;;) {
+    const completion = await complete(provider, conversation, call);
+    const request = tools?.available.length ? parseToolCall(completion.content) : null;
+    if (!tools || !request || tools.calls.length > tools.maxCalls) return completion;
+
+    const record = await tools.call(request.tool, request.arguments);
+    conversation.push(
+      { role: "assistant", content: completion.content },
+      { role: "user", content: `Result of ${record.tool}:\n${record.output}` }
+    );
   }
+}
+
+/**
+ * Complete a chat, streaming tokens to onToken when a listener is given.
+ * Streams take the usage the provider reports when they end; without one the token counts are estimated.
+ */
+async function complete(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  call: AgentCallOptions
+): Promise<CompletionResult> {
+  let completion: CompletionResult;
 
-  addTask(task: AgentTask): void {
-    this.taskQueue.push(task);
+  call.beforeCompletion?.();
+  if (!call.onToken) {
+    completion = await provider.complete(messages, { signal: call.signal });
+  } else {
+    let content = "";
+    let usage: TokenUsage | undefined;
+    const options = { signal: call.signal, onUsage: (reported: TokenUsage) => (usage = reported) };
+    for await (const token of provider.stream(messages, options)) {
+      content += token;
+      call.onToken(token);
+    }
+    completion = { content, model: provider.model, usage };
   }
 
-  removeTask(taskId: string): void {
-    this.taskQueue = this.taskQueue.filter((t) => t.id !== taskId);
+  call.onCompletion?.(messages, completion);
+  return completion;
+}
+
+/**
+ * Render an issue for logs and repair prompts; compiler issues use tsc's format
+ */
+export function formatIssue(issue: VerificationIssue): string {
+  if (issue.source === "typescript" && issue.file && issue.code) {
+    return formatDiagnostic({
+      file: issue.file,
+      line: issue.line || 1,
+      column: issue.column || 1,
+      code: issue.code,
+      message: issue.message,
+      category: "error",
+    });
+  }
+  if (issue.rule) {
+    const location = issue.file ? `${issue.file}${issue.line ? `:${issue.line}` : ""}: ` : "";
+    return `${issue.severity === "warning" ? "warning: " : ""}${location}${issue.message} [${issue.rule}]`;
   }
+  return issue.message;
+}
+
+/**
+ * Changesets from coder attempts whose verification passed, in the order they were produced,
+ * each followed by the tests written for it when they passed too
+ */
+export function collectVerifiedChangesets(tasks: AgentTask[]): Changeset[] {
+  const changesets: Changeset[] = [];
+
+  tasks.forEach((task) => {
+    if (!task.changeset) return;
+    if (task.agentType !== "coder" && !(task.agentType === "tester" && task.status === "completed")) return;
+    const verification = tasks.find(
+      (t) => t.agentType === "verifier" && t.planStepId === task.planStepId && t.attempt === task.attempt
+    );
+    if (verification?.status === "completed") changesets.push(task.changeset);
+  });
+
+  return changesets;
 }
 
 export default AgentOrchestrator;
@@ -0,0 +1,157 @@
+/**
+ * Agent Plan - Typed, machine-readable development plans produced by the Planner agent
+ * Plans are validated with zod so they can be stored, edited and re-run step by step
+ */
+
+import { z } from "zod";
+
+export const PlanStepSchema = z.object({
+  id: z.string().min(1, "Step id is required"),
+  description: z.string().min(1, "Step description is required"),
+  files: z.array(z.string().min(1)).default([]),
+  dependsOn: z.array(z.string()).default([]),
+  acceptanceCriteria: z.array(z.string()).default([]),
+});
+
+export const PlanSchema = z
+  .object({
+    summary: z.string().default(""),
+    steps: z.array(PlanStepSchema).min(1, "Plan must contain at least one step"),
+  })
+  .superRefine((plan, ctx) => {
+    const ids = new Set<string>();
+
+    plan.steps.forEach((step, index) => {
+      if (ids.has(step.id)) {
+        ctx.addIssue({ code: "custom", message: `Duplicate step id "${step.id}"`, path: ["steps", index, "id"] });
+      }
+      ids.add(step.id);
+    });
+
+    let unknownDependency = false;
+    plan.steps.forEach((step, index) => {
+      for (const dependency of step.dependsOn) {
+        if (ids.has(dependency)) continue;
+        unknownDependency = true;
+        ctx.addIssue({
+          code: "custom",
+          message: `Step "${step.id}" depends on unknown step "${dependency}"`,
+          path: ["steps", index, "dependsOn"],
+        });
+      }
+    });
+
+    if (!unknownDependency && findCycle(plan.steps)) {
+      ctx.addIssue({ code: "custom", message: "Plan steps contain a dependency cycle", path: ["steps"] });
+    }
+  });
+
+export type PlanStep = z.infer<typeof PlanStepSchema>;
+export type Plan = z.infer<typeof PlanSchema>;
+
+/**
+ * Parse a plan from model output, accepting bare JSON or JSON wrapped in a markdown fence
+ */
+export function parsePlan(text: string): Plan {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    throw new Error("Plan is not valid JSON");
+  }
+
+  const parsed = PlanSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid plan: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Order plan steps so every step comes after the steps it depends on
+ */
+export function orderPlanSteps(plan: Plan): PlanStep[] {
+  const byId = new Map(plan.steps.map((step) => [step.id, step]));
+  const ordered: PlanStep[] = [];
+  const visited = new Set<string>();
+
+  const visit = (step: PlanStep) => {
+    if (visited.has(step.id)) return;
+    visited.add(step.id);
+    for (const dependency of step.dependsOn) {
+      const dep = byId.get(dependency);
+      if (dep) visit(dep);
+    }
+    ordered.push(step);
+  };
+
+  plan.steps.forEach(visit);
+  return ordered;
+}
+
+/**
+ * The leading steps of an ordered list that can be generated at the same time, at most limit of them:
+ * none depends on another and each declares files no other one declares.
+ * Steps without declared files are not known to be independent and run alone.
+ */
+export function parallelBatch(steps: PlanStep[], limit: number): PlanStep[] {
+  const batch: PlanStep[] = [];
+  const files = new Set<string>();
+
+  for (const step of steps) {
+    if (batch.length >= Math.max(1, limit)) break;
+    if (batch.length > 0) {
+      const independent =
+        step.files.length > 0 &&
+        batch[0].files.length > 0 &&
+        !step.dependsOn.some((id) => batch.some((s) => s.id === id)) &&
+        !step.files.some((path) => files.has(path));
+      if (!independent) break;
+    }
+    batch.push(step);
+    step.files.forEach((path) => files.add(path));
+  }
+
+  return batch;
+}
+
+/**
+ * Render a plan as readable text for prompts and task logs
+ */
+export function formatPlan(plan: Plan): string {
+  const lines = plan.summary ? [plan.summary, ""] : [];
+
+  for (const step of plan.steps) {
+    lines.push(`[${step.id}] ${step.description}`);
+    if (step.files.length) lines.push(`  Files: ${step.files.join(", ")}`);
+    if (step.dependsOn.length) lines.push(`  Depends on: ${step.dependsOn.join(", ")}`);
+    for (const criterion of step.acceptanceCriteria) {
+      lines.push(`  - ${criterion}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function findCycle(steps: PlanStep[]): boolean {
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (id: string): boolean => {
+    if (state.get(id) === "done") return false;
+    if (state.get(id) === "visiting") return true;
+
+    state.set(id, "visiting");
+    for (const dependency of byId.get(id)?.dependsOn || []) {
+      if (visit(dependency)) return true;
+    }
+    state.set(id, "done");
+    return false;
+  };
+
+  return steps.some((step) => visit(step.id));
+}
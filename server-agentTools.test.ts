@@ -0,0 +1,112 @@
+/**
+ * AIDE Platform - Agent Tool Tests
+ * Covers the project tools, their permissions and the tool-use loop of the agents
+ */
+
+import { describe, it, expect } from "vitest";
+import { AgentOrchestrator } from "./server-agentOrchestrator";
+import { AgentToolbox, parseToolCall, toolboxFor } from "./server-agentTools";
+import { LocalStubProvider, type ChatMessage } from "./server-llmProviders";
+
+const FILES = new Map([
+  ["src/add.ts", "export function add(a: number, b: number) {\n  return a + b;\n}"],
+  ["src/index.ts", 'export { add } from "./add";'],
+  ["README.md", "# Numbers"],
+]);
+
+const context = { projectId: 1, files: () => FILES };
+
+/**
+ * Test Suite: Agent Tools
+ */
+describe("Agent Tools", () => {
+  it("should list, read and search the project's files", async () => {
+    const tools = new AgentToolbox("coder", ["list_files", "read_file", "grep"], context);
+
+    expect((await tools.call("list_files", { prefix: "src" })).output).toBe("src/add.ts\nsrc/index.ts");
+    expect((await tools.call("read_file", { path: "./src/add.ts", startLine: 2, endLine: 2 })).output).toBe(
+      "  return a + b;"
+    );
+    expect((await tools.call("grep", { pattern: "add" })).output).toBe(
+      'src/add.ts:1: export function add(a: number, b: number) {\nsrc/index.ts:1: export { add } from "./add";'
+    );
+    expect((await tools.call("grep", { pattern: "add(" })).output).toBe(
+      "src/add.ts:1: export function add(a: number, b: number) {"
+    );
+    expect(tools.calls.every((call) => call.ok)).toBe(true);
+  });
+
+  it("should report refused and failed calls to the model instead of throwing", async () => {
+    const tools = toolboxFor("planner", {}, context);
+
+    expect(tools.available.map((tool) => tool.name)).not.toContain("run_tests");
+    expect(await tools.call("run_tests", {})).toMatchObject({
+      ok: false,
+      output: "Error: Tool run_tests is not permitted for the planner",
+    });
+    expect((await tools.call("read_file", { path: "missing.ts" })).output).toBe("Error: No such file: missing.ts");
+    expect((await tools.call("read_file", {})).output).toContain("Error: Invalid arguments for read_file");
+    expect((await tools.call("read_memory", { query: "numbers" })).output).toBe(
+      "Error: Long-term memory is not available"
+    );
+    expect(tools.calls).toHaveLength(4);
+
+    const limited = new AgentToolbox("coder", ["list_files"], context, 1);
+    await limited.call("list_files", {});
+    expect((await limited.call("list_files", {})).output).toContain("Tool call limit of 1 reached");
+  });
+
+  it("should only treat tool requests as tool calls", () => {
+    expect(parseToolCall('```json\n{"tool": "read_file", "arguments": {"path": "a.ts"}}\n```')).toEqual({
+      tool: "read_file",
+      arguments: { path: "a.ts" },
+    });
+    expect(parseToolCall('{"summary": "Add", "changes": []}')).toBeNull();
+    expect(parseToolCall("LGTM")).toBeNull();
+  });
+
+  it("should let the coder read the project before answering and log the calls on its task", async () => {
+    const coderInputs: ChatMessage[][] = [];
+    const replies = [
+      '{"tool": "read_file", "arguments": {"path": "src/add.ts"}}',
+      JSON.stringify({
+        summary: "Subtract",
+        changes: [
+          {
+            op: "create",
+            path: "src/subtract.ts",
+            content:
+              "export function subtract(a: number, b: number): number {\n  try {\n    return a - b;\n" +
+              "  } catch (error) {\n    throw error;\n  }\n}",
+          },
+        ],
+      }),
+    ];
+    const orchestrator = new AgentOrchestrator({
+      executor: { command: ["node", "-e", ""], requireNetworkIsolation: false },
+      providers: {
+        planner: new LocalStubProvider({
+          responder: () => JSON.stringify({ steps: [{ id: "sub", description: "Subtract", files: ["src/subtract.ts"] }] }),
+        }),
+        coder: new LocalStubProvider({
+          responder: (messages) => {
+            coderInputs.push(messages);
+            return replies[coderInputs.length - 1];
+          },
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const tasks = await orchestrator.orchestrate("Add subtract next to add", 1, { files: Object.fromEntries(FILES) });
+
+    const coder = tasks.find((t) => t.agentType === "coder");
+    expect(coder?.status).toBe("completed");
+    expect(coder?.toolCalls).toEqual([
+      expect.objectContaining({ tool: "read_file", arguments: { path: "src/add.ts" }, ok: true }),
+    ]);
+    expect(coderInputs[0].some((m) => m.content.includes("- read_file"))).toBe(true);
+    expect(coderInputs[1][coderInputs[1].length - 1].content).toBe(`Result of read_file:\n${FILES.get("src/add.ts")}`);
+    expect(tasks.find((t) => t.agentType === "planner")?.toolCalls).toBeUndefined();
+  });
+});
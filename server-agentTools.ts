@@ -0,0 +1,284 @@
+/**
+ * Agent Tools - Let agents inspect the project they are working on
+ * Agents call tools in a loop before giving their answer. Which tools an agent may use is configured
+ * per agent type, and every call is logged on the agent's task.
+ */
+
+import { z } from "zod";
+import { normalizePath, type FileMap } from "./server-changeset";
+import type { AgentModelRole } from "./server-llmProviders";
+import { formatMemories, type MemoryContext } from "./server-memorySystem";
+import { runInSandbox, type SandboxOptions } from "./server-sandbox";
+
+export const TOOL_NAMES = ["list_files", "read_file", "grep", "read_memory", "run_tests"] as const;
+
+export type ToolName = (typeof TOOL_NAMES)[number];
+
+/**
+ * What the tools of one agent step can see. files is read when a tool needs it: the tools of the agents that check
+ * a changeset (verifier, tester, reviewer) see the project with it applied, which fails if it does not apply.
+ */
+export interface ToolContext {
+  projectId: number;
+  files: () => FileMap;
+  userId?: number;
+  memory?: MemoryContext;
+  executor?: Omit<SandboxOptions, "signal">;
+  signal?: AbortSignal;
+}
+
+export interface AgentTool<Args = unknown> {
+  name: ToolName;
+  description: string;
+  /**
+   * Argument shape shown to the model
+   */
+  usage: string;
+  parameters: z.ZodType<Args>;
+  run(args: Args, context: ToolContext): Promise<string>;
+}
+
+/**
+ * One tool call as logged on the agent task; output is what the model was shown
+ */
+export interface ToolCallRecord {
+  tool: string;
+  arguments: unknown;
+  ok: boolean;
+  output: string;
+  durationMs: number;
+}
+
+export const ToolPermissionsSchema = z.object({
+  planner: z.array(z.enum(TOOL_NAMES)).optional(),
+  coder: z.array(z.enum(TOOL_NAMES)).optional(),
+  verifier: z.array(z.enum(TOOL_NAMES)).optional(),
+  tester: z.array(z.enum(TOOL_NAMES)).optional(),
+  reviewer: z.array(z.enum(TOOL_NAMES)).optional(),
+});
+
+export type ToolPermissions = z.infer<typeof ToolPermissionsSchema>;
+
+/**
+ * Agents may read the project and memory; only the verifier and tester may run the project's tests.
+ * A project's permissions replace these per agent type.
+ */
+export const DEFAULT_TOOL_PERMISSIONS: Required<ToolPermissions> = {
+  planner: ["list_files", "read_file", "grep", "read_memory"],
+  coder: ["list_files", "read_file", "grep", "read_memory"],
+  verifier: ["list_files", "read_file", "grep", "run_tests"],
+  tester: ["list_files", "read_file", "grep", "run_tests"],
+  reviewer: ["list_files", "read_file", "grep", "read_memory"],
+};
+
+const DEFAULT_MAX_TOOL_CALLS = 8;
+const MAX_TOOL_OUTPUT = 8000;
+const MAX_GREP_MATCHES = 100;
+
+/**
+ * Type a tool's run arguments from its parameters; the result fits in a list of tools with other arguments
+ */
+export function defineTool<Args>(tool: AgentTool<Args>): AgentTool {
+  return tool;
+}
+
+export const BUILTIN_TOOLS: AgentTool[] = [
+  defineTool({
+    name: "list_files",
+    description: "List the project's files, optionally only those under a directory",
+    usage: '{"prefix"?: string}',
+    parameters: z.object({ prefix: z.string().optional() }),
+    async run({ prefix }, context) {
+      const paths = [...context.files().keys()]
+        .filter((path) => !prefix || path.startsWith(normalizePath(prefix)))
+        .sort();
+      return paths.length ? paths.join("\n") : "No files";
+    },
+  }),
+  defineTool({
+    name: "read_file",
+    description: "Read a file, optionally only lines startLine to endLine (1-based, inclusive)",
+    usage: '{"path": string, "startLine"?: number, "endLine"?: number}',
+    parameters: z.object({
+      path: z.string().min(1),
+      startLine: z.number().int().positive().optional(),
+      endLine: z.number().int().positive().optional(),
+    }),
+    async run({ path, startLine, endLine }, context) {
+      const content = context.files().get(normalizePath(path));
+      if (content === undefined) throw new Error(`No such file: ${path}`);
+      if (startLine === undefined && endLine === undefined) return content;
+
+      return content
+        .split("\n")
+        .slice((startLine ?? 1) - 1, endLine)
+        .join("\n");
+    },
+  }),
+  defineTool({
+    name: "grep",
+    description: "Search file contents for a literal string; prints path:line: text for each line containing it",
+    usage: '{"pattern": string, "path"?: string}',
+    parameters: z.object({ pattern: z.string().min(1), path: z.string().optional() }),
+    async run({ pattern, path }, context) {
+      // A plain substring search: a regular expression chosen by the model could backtrack for minutes
+      const matches: string[] = [];
+      for (const [file, content] of [...context.files()].sort(([a], [b]) => a.localeCompare(b))) {
+        if (path && !file.startsWith(normalizePath(path))) continue;
+        content.split("\n").forEach((line, i) => {
+          if (line.includes(pattern)) matches.push(`${file}:${i + 1}: ${line}`);
+        });
+      }
+
+      if (matches.length === 0) return "No matches";
+      return matches.length > MAX_GREP_MATCHES
+        ? [...matches.slice(0, MAX_GREP_MATCHES), `... ${matches.length - MAX_GREP_MATCHES} more matches`].join("\n")
+        : matches.join("\n");
+    },
+  }),
+  defineTool({
+    name: "read_memory",
+    description: "Look up lessons, preferences and earlier solutions from long-term memory",
+    usage: '{"query": string}',
+    parameters: z.object({ query: z.string().min(1) }),
+    async run({ query }, context) {
+      if (!context.memory || context.userId === undefined) throw new Error("Long-term memory is not available");
+
+      const memories = await context.memory.getContextForTask(context.userId, context.projectId, query);
+      return memories.length ? formatMemories(memories) : "No memories found";
+    },
+  }),
+  defineTool({
+    name: "run_tests",
+    description: "Run the project's test command in the sandbox and show its exit code and output",
+    usage: "{}",
+    parameters: z.object({}),
+    async run(_, context) {
+      if (!context.executor) throw new Error("No test command is configured");
+
+      const result = await runInSandbox(context.files(), { ...context.executor, signal: context.signal });
+      return [
+        `$ ${context.executor.command.join(" ")}`,
+        `Exit code: ${result.exitCode ?? result.signal}${result.timedOut ? " (timed out)" : ""}`,
+        result.stdout.trim(),
+        result.stderr.trim(),
+      ]
+        .filter(Boolean)
+        .join("\n");
+    },
+  }),
+];
+
+const ToolCallSchema = z.object({
+  tool: z.string().min(1),
+  arguments: z.record(z.string(), z.unknown()).default({}),
+});
+
+/**
+ * A reply asking for a tool, as {"tool": name, "arguments": {...}}, bare or in a markdown fence; null for any other reply
+ */
+export function parseToolCall(text: string): { tool: string; arguments: Record<string, unknown> } | null {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    return null;
+  }
+
+  const parsed = ToolCallSchema.safeParse(raw);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Read stored permissions; projects without any use DEFAULT_TOOL_PERMISSIONS
+ */
+export function parseToolPermissions(raw: unknown): ToolPermissions {
+  if (raw === null || raw === undefined) return {};
+
+  const parsed = ToolPermissionsSchema.safeParse(typeof raw === "string" ? JSON.parse(raw) : raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid tool permissions: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * The tools one agent step may call, and the log of its calls.
+ * Failed calls are reported to the model as errors rather than failing the step.
+ */
+export class AgentToolbox {
+  readonly calls: ToolCallRecord[] = [];
+  private tools: AgentTool[];
+
+  constructor(
+    private role: AgentModelRole,
+    allowed: readonly ToolName[],
+    private context: ToolContext,
+    readonly maxCalls: number = DEFAULT_MAX_TOOL_CALLS,
+    tools: AgentTool[] = BUILTIN_TOOLS
+  ) {
+    this.tools = tools.filter((tool) => allowed.includes(tool.name));
+  }
+
+  get available(): AgentTool[] {
+    return this.tools;
+  }
+
+  get exhausted(): boolean {
+    return this.calls.length >= this.maxCalls;
+  }
+
+  /**
+   * One line per tool, for the agent's prompt
+   */
+  describe(): string {
+    return this.tools.map((tool) => `- ${tool.name} ${tool.usage}: ${tool.description}`).join("\n");
+  }
+
+  async call(name: string, args: Record<string, unknown>): Promise<ToolCallRecord> {
+    const startedAt = Date.now();
+    let ok = false;
+    let output: string;
+
+    try {
+      if (this.exhausted) throw new Error(`Tool call limit of ${this.maxCalls} reached; reply with your answer`);
+
+      const tool = this.tools.find((t) => t.name === name);
+      if (!tool) {
+        throw new Error(
+          TOOL_NAMES.includes(name as ToolName)
+            ? `Tool ${name} is not permitted for the ${this.role}`
+            : `Unknown tool: ${name}`
+        );
+      }
+
+      const parsed = tool.parameters.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for ${name}: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+      }
+
+      output = await tool.run(parsed.data, this.context);
+      ok = true;
+    } catch (error) {
+      output = `Error: ${error instanceof Error ? error.message : error}`;
+    }
+
+    if (output.length > MAX_TOOL_OUTPUT) {
+      output = `${output.slice(0, MAX_TOOL_OUTPUT)}\n... truncated ${output.length - MAX_TOOL_OUTPUT} characters`;
+    }
+
+    const record = { tool: name, arguments: args, ok, output, durationMs: Date.now() - startedAt };
+    this.calls.push(record);
+    return record;
+  }
+}
+
+/**
+ * The toolbox for one agent step under a project's permissions
+ */
+export function toolboxFor(role: AgentModelRole, permissions: ToolPermissions, context: ToolContext): AgentToolbox {
+  return new AgentToolbox(role, permissions[role] ?? DEFAULT_TOOL_PERMISSIONS[role], context);
+}
@@ -0,0 +1,219 @@
+/**
+ * AIDE Platform - Agent Worker Tests
+ * Checks that queued runs are recorded as linked agent tasks and resumed from their checkpoints
+ */
+
+import { describe, it, expect } from "vitest";
+import { AgentOrchestrator, type RunCheckpoint } from "./server-agentOrchestrator";
+import { createAgentTaskHandler } from "./server-agentWorker";
+import type { Database } from "./server-aideService";
+import { LocalStubProvider } from "./server-llmProviders";
+import { RunControl } from "./server-runControl";
+import { FinalTaskError, type QueuedTask } from "./server-taskQueue";
+
+const VALID_CODE = `export function add(a: number, b: number): number {
+  try {
+    return a + b;
+  } catch (error) {
+    throw error;
+  }
+}`;
+
+const PLAN_JSON = JSON.stringify({
+  summary: "Add numbers",
+  steps: [{ id: "add", description: "Add function", files: ["src/add.ts"] }],
+});
+
+/**
+ * Records inserts and updates; conditions are not evaluated and selects return the given rows per table
+ */
+function recordingDatabase(rows: Record<string, Record<string, any>[]> = {}) {
+  const inserted: Record<string, any>[] = [];
+  const updates: Record<string, any>[] = [];
+
+  const db: Database = {
+    insert: () => ({
+      values: (values: Record<string, any>) => ({
+        $returningId: async () => {
+          inserted.push({ id: 100 + inserted.length, ...values });
+          return [{ id: 100 + inserted.length - 1 }];
+        },
+      }),
+    }),
+    select: () => ({
+      from: (table: string) => ({
+        where: () => Object.assign(Promise.resolve(rows[table] || []), { limit: async () => rows[table] || [] }),
+      }),
+    }),
+    update: (table: string) => ({
+      set: (values: Record<string, any>) => ({
+        where: async () => {
+          updates.push({ table, ...values });
+        },
+      }),
+    }),
+    delete: () => {
+      throw new Error("Unexpected delete");
+    },
+  };
+
+  return { db, inserted, updates };
+}
+
+const queuedTask: QueuedTask = {
+  id: 7,
+  projectId: 1,
+  runId: 3,
+  agentType: "planner",
+  status: "running",
+  prompt: "Add numbers",
+  retries: 0,
+  maxRetries: 3,
+};
+
+const orchestratorWith = (coderOutput: string) =>
+  new AgentOrchestrator({
+    executor: {
+      command: ["node", "-e", "require('fs').accessSync('src/add.ts')"],
+      requireNetworkIsolation: false,
+    },
+    maxRepairAttempts: 1,
+    providers: {
+      planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+      coder: new LocalStubProvider({ responder: () => coderOutput }),
+      verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+    },
+  });
+
+/**
+ * Test Suite: Agent Worker
+ */
+describe("Agent Worker", () => {
+  it("should store each step under the run, linked to its parent step", async () => {
+    const { db, inserted, updates } = recordingDatabase();
+    const changeset = JSON.stringify({ changes: [{ op: "create", path: "src/add.ts", content: VALID_CODE }] });
+    const handler = createAgentTaskHandler(db, orchestratorWith(changeset));
+
+    await handler(queuedTask, new RunControl());
+
+    const [planner, coder, verifier, executor] = inserted;
+    expect(inserted.map((t) => t.agentType)).toEqual(["planner", "coder", "verifier", "executor"]);
+    expect(inserted.every((t) => t.runId === 3)).toBe(true);
+    expect(planner.parentTaskId).toBe(queuedTask.id);
+    expect(coder.parentTaskId).toBe(planner.id);
+    expect(verifier.parentTaskId).toBe(coder.id);
+    expect(executor.parentTaskId).toBe(planner.id);
+    expect(coder).toMatchObject({ model: "local-stub", promptTokens: expect.any(Number), costUsd: 0 });
+
+    const statuses = updates.filter((u) => "status" in u);
+    expect(statuses.map((u) => u.status)).toEqual(["running", "completed"]);
+    expect(statuses[1]).toMatchObject({ table: "agentRuns", outcome: expect.stringContaining("Exit code: 0") });
+    expect(updates.find((u) => "checkpoint" in u)?.checkpoint.files).toEqual({});
+    expect(updates.filter((u) => "checkpoint" in u).map((u) => u.checkpoint.checkpoint.stageId)).toEqual([
+      "code",
+      "verify",
+      "execute",
+    ]);
+  });
+
+  it("should start from the project's files and write the accepted changesets back", async () => {
+    const { db, updates } = recordingDatabase({
+      projects: [{ id: 1, userId: 5 }],
+      agentRuns: [{ id: 3, userId: 5 }],
+      projectFiles: [{ id: 9, projectId: 1, path: "src/add.ts", content: "export {};" }],
+    });
+    const diff = "@@ -1 +1,7 @@\n-export {};\n+" + VALID_CODE.split("\n").join("\n+");
+    const changeset = JSON.stringify({ changes: [{ op: "modify", path: "src/add.ts", diff }] });
+    const handler = createAgentTaskHandler(db, orchestratorWith(changeset));
+
+    await handler(queuedTask, new RunControl());
+
+    expect(updates).toContainEqual(expect.objectContaining({ table: "projectFiles", content: VALID_CODE }));
+    expect(updates[updates.length - 1]).toMatchObject({ table: "agentRuns", status: "completed" });
+  });
+
+  it("should fail at once when the changesets no longer apply, and retry when they cannot be stored", async () => {
+    // The project gains src/add.ts while the run creates it
+    let fileReads = 0;
+    const rows = {
+      projects: [{ id: 1, userId: 5 }],
+      agentRuns: [{ id: 3, userId: 5 }],
+      get projectFiles() {
+        return fileReads++ ? [{ id: 9, projectId: 1, path: "src/add.ts", content: "export {};" }] : [];
+      },
+    };
+    const changeset = JSON.stringify({ changes: [{ op: "create", path: "src/add.ts", content: VALID_CODE }] });
+
+    const conflict = createAgentTaskHandler(recordingDatabase(rows).db, orchestratorWith(changeset));
+    const rejected = conflict(queuedTask, new RunControl());
+    await expect(rejected).rejects.toThrow("Cannot create src/add.ts: file already exists");
+    await expect(rejected).rejects.toBeInstanceOf(FinalTaskError);
+
+    const outage = recordingDatabase({ ...rows, projectFiles: [] });
+    outage.db.insert = (table: string) => {
+      if (table === "projectFiles") throw new Error("Connection lost");
+      return recordingDatabase().db.insert(table);
+    };
+    const retried = createAgentTaskHandler(outage.db, orchestratorWith(changeset))(queuedTask, new RunControl());
+    await expect(retried).rejects.toThrow("Failed to apply changeset: Connection lost");
+    await expect(retried).rejects.not.toBeInstanceOf(FinalTaskError);
+  });
+
+  it("should mark the run failed and only let the queue retry unexpected errors", async () => {
+    const { db, updates } = recordingDatabase();
+    const handler = createAgentTaskHandler(db, orchestratorWith("not json"));
+
+    // The coder keeps failing until the stage's loop limit; running it again would do the same
+    const final = handler(queuedTask, new RunControl());
+    await expect(final).rejects.toThrow("Coder error");
+    await expect(final).rejects.toBeInstanceOf(FinalTaskError);
+    expect(updates[updates.length - 1]).toMatchObject({ status: "failed" });
+
+    const outage = recordingDatabase();
+    outage.db.insert = () => {
+      throw new Error("Connection lost");
+    };
+    const retried = createAgentTaskHandler(outage.db, orchestratorWith("not json"))(queuedTask, new RunControl());
+    await expect(retried).rejects.toThrow("Orchestration error: Connection lost");
+    await expect(retried).rejects.not.toBeInstanceOf(FinalTaskError);
+  });
+
+  it("should wait at approval gates and apply the stored decision", async () => {
+    const { db, inserted, updates } = recordingDatabase({
+      projects: [{ id: 1, approvalPolicy: { gates: ["execution"] } }],
+      agentRuns: [{ id: 3, status: "awaiting_approval", approvalDecision: "rejected", approvalFeedback: "Not yet" }],
+    });
+    const changeset = JSON.stringify({ changes: [{ op: "create", path: "src/add.ts", content: VALID_CODE }] });
+    const handler = createAgentTaskHandler(db, orchestratorWith(changeset), { approvalPollMs: 1 });
+
+    await expect(handler(queuedTask, new RunControl())).rejects.toThrow();
+
+    // The rejection sends the run back to the coder, whose repeated changeset no longer applies
+    expect(inserted.map((t) => t.agentType)).toEqual(["planner", "coder", "verifier", "coder", "verifier"]);
+    const statuses = updates.filter((u) => "status" in u);
+    expect(statuses.map((u) => u.status)).toEqual(["running", "awaiting_approval", "running", "failed"]);
+    expect(statuses[1]).toMatchObject({ approvalGate: "execution" });
+  });
+
+  it("should resume a run from its stored checkpoint", async () => {
+    const changeset = JSON.stringify({ changes: [{ op: "create", path: "src/add.ts", content: VALID_CODE }] });
+    const checkpoints: RunCheckpoint[] = [];
+    await orchestratorWith(changeset).run("Add numbers", 1, { onCheckpoint: (c) => void checkpoints.push(c) });
+    const checkpoint = checkpoints.find((c) => c.stageId === "verify")!;
+
+    const files = { "README.md": "# Add" };
+    const { db, inserted, updates } = recordingDatabase({
+      projects: [{ id: 1, userId: 5 }],
+      projectFiles: [{ id: 9, projectId: 1, path: "src/changed-since.ts", content: "" }],
+      agentRuns: [{ id: 3, userId: 5, checkpoint: { checkpoint, taskIds: { [checkpoint.lastTaskId!]: 42 }, files } }],
+    });
+    const handler = createAgentTaskHandler(db, orchestratorWith("not json"));
+
+    await handler(queuedTask, new RunControl());
+
+    expect(inserted.map((t) => `${t.agentType}:${t.parentTaskId}`)).toEqual(["verifier:42", "executor:7"]);
+    const saved = updates.filter((u) => "checkpoint" in u).map((u) => u.checkpoint.files);
+    expect(saved).toEqual([files]);
+    expect(updates[updates.length - 1]).toMatchObject({ table: "agentRuns", status: "completed" });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Agent Worker - Runs queued agent tasks through the orchestrator
+ * Every agent step is stored as a child task of the queued task, under the task's run.
+ * Runs start from the project's stored files and write the changesets of a completed run back to them.
+ * Runs follow the project's pipeline when one is configured, use the run owner's long-term memory
+ * and stop once the project's budget is spent.
+ * Approval gates park the run in awaiting_approval until a decision is stored on it.
+ * Every finished stage is checkpointed on the run, so a run interrupted by a restart, retried after a failure
+ * or resumed by the user continues from its last finished stage.
+ */
+
+import { AgentOrchestrator, type RunOptions } from "./server-agentOrchestrator";
+import {
+  ChangesetRejectedError,
+  applyChangeset,
+  getAgentRunApproval,
+  getAgentRunCheckpoint,
+  getAgentRunOwner,
+  getApprovalPolicy,
+  getProjectBudget,
+  getProjectFiles,
+  getProjectPipeline,
+  getProjectPrompts,
+  getProjectToolPermissions,
+  getProjectVerifierRules,
+  getProjectSpend,
+  recordAgentRunTask,
+  requestAgentRunApproval,
+  saveAgentRunCheckpoint,
+  updateAgentRunStatus,
+  type Database,
+} from "./server-aideService";
+import type { ApprovalDecision, ApprovalGate } from "./server-approvals";
+import { FinalTaskError, type TaskHandler } from "./server-taskQueue";
+
+export interface AgentWorkerOptions {
+  /**
+   * How often a run waiting for approval checks for a decision
+   */
+  approvalPollMs?: number;
+}
+
+/**
+ * TaskHandler for AgentTaskQueue. Throws when the run does not complete so the queue retries it,
+ * or a FinalTaskError when a retry would fail the same way.
+ */
+export function createAgentTaskHandler(
+  db: Database,
+  orchestrator: AgentOrchestrator = new AgentOrchestrator(),
+  options: AgentWorkerOptions = {}
+): TaskHandler {
+  const approvalPollMs = options.approvalPollMs ?? 2000;
+
+  return async (task, control) => {
+    const runId = task.runId ?? undefined;
+    if (runId) await updateAgentRunStatus(db, runId, { status: "running", startedAt: new Date() });
+
+    const policy = runId ? await getApprovalPolicy(db, task.projectId) : { gates: [] };
+    const approval =
+      runId && policy.gates.length
+        ? {
+            policy,
+            request: (request: { gate: ApprovalGate }, signal?: AbortSignal) =>
+              waitForApproval(db, runId, request.gate, approvalPollMs, signal),
+          }
+        : undefined;
+
+    const pipeline = (await getProjectPipeline(db, task.projectId)) ?? undefined;
+    const prompts = await getProjectPrompts(db, task.projectId);
+    const tools = await getProjectToolPermissions(db, task.projectId);
+    const verifierRules = await getProjectVerifierRules(db, task.projectId);
+    const userId = runId ? ((await getAgentRunOwner(db, runId)) ?? undefined) : undefined;
+    const stored = runId ? await getAgentRunCheckpoint(db, runId) : null;
+    // A resumed run continues on the files it started from, not on what the project holds now
+    const files =
+      stored?.files ??
+      (userId === undefined ? {} : fileContents(await getProjectFiles(db, task.projectId, userId)));
+
+    // A resumed run already counts its earlier steps as its own usage
+    const limits = await getProjectBudget(db, task.projectId);
+    const projectSpend =
+      limits.maxProjectTokens || limits.maxProjectCostUsd
+        ? await getProjectSpend(db, task.projectId, stored ? runId : undefined)
+        : undefined;
+
+    // Orchestrator step ids -> stored task ids, so children can point at their parent row
+    const storedIds = new Map<string, number>(Object.entries(stored?.taskIds ?? {}));
+
+    const options: RunOptions = {
+      files,
+      control,
+      approval,
+      pipeline,
+      prompts,
+      tools,
+      verifierRules,
+      userId,
+      budget: { limits, projectSpend },
+      runId: runId ? String(runId) : `task-${task.id}`,
+      onTask: async (step) => {
+        const id = await recordAgentRunTask(db, {
+          projectId: task.projectId,
+          runId,
+          parentTaskId: (step.parentTaskId && storedIds.get(step.parentTaskId)) || task.id,
+          agentType: step.agentType,
+          status: step.status,
+          prompt: step.prompt,
+          attempt: step.attempt,
+          result: step.result,
+          error: step.error,
+          planStepId: step.planStepId,
+          plan: step.plan,
+          changeset: step.changeset,
+          execution: step.execution,
+          model: step.usage?.model,
+          promptTokens: step.usage?.promptTokens,
+          completionTokens: step.usage?.completionTokens,
+          costUsd: step.usage?.costUsd,
+          prompts: step.prompts,
+          toolCalls: step.toolCalls,
+          testResults: step.testResults,
+          reviewComments: step.reviewComments,
+          completedAt: step.completedAt,
+        });
+        storedIds.set(step.id, id);
+      },
+      onCheckpoint: runId
+        ? (checkpoint) =>
+            saveAgentRunCheckpoint(db, runId, { checkpoint, taskIds: Object.fromEntries(storedIds), files })
+        : undefined,
+    };
+
+    const result = stored
+      ? await orchestrator.resume(task.prompt, task.projectId, stored.checkpoint, options)
+      : await orchestrator.run(task.prompt, task.projectId, options);
+    const { outcome, memoryIds } = result;
+    let { status, error, retryable } = result;
+
+    // Cancelled by the user (the run is already marked), lease lost or queue stopping
+    control.throwIfCancelled();
+
+    // A changeset that no longer applies would conflict again on a retry; only storage errors are worth one
+    if (status === "completed" && userId !== undefined && result.changesets.length) {
+      try {
+        await applyChangeset(db, task.projectId, userId, result.changesets);
+      } catch (applyError) {
+        status = "failed";
+        error = applyError instanceof Error ? applyError.message : String(applyError);
+        retryable = !(applyError instanceof ChangesetRejectedError);
+      }
+    }
+
+    if (runId) {
+      await updateAgentRunStatus(db, runId, { status, outcome, error, memoryIds, finishedAt: new Date() });
+    }
+    if (status !== "completed") throw retryable ? new Error(error) : new FinalTaskError(error || "Run failed");
+
+    return outcome;
+  };
+}
+
+/**
+ * Stored project files as the orchestrator reads them, content keyed by path
+ */
+function fileContents(files: { path: string; content?: string }[]): Record<string, string> {
+  return Object.fromEntries(files.map((file) => [file.path, file.content || ""]));
+}
+
+async function waitForApproval(
+  db: Database,
+  runId: number,
+  gate: ApprovalGate,
+  pollIntervalMs: number,
+  signal?: AbortSignal
+): Promise<ApprovalDecision> {
+  await requestAgentRunApproval(db, runId, gate);
+
+  for (;;) {
+    await delay(pollIntervalMs, signal);
+
+    const run = await getAgentRunApproval(db, runId);
+    if (!run) throw new Error(`Run ${runId} no longer exists`);
+    if (!run.approvalDecision) continue;
+
+    await updateAgentRunStatus(db, runId, { status: "running", approvalGate: null, approvalDecision: null });
+    return run.approvalDecision === "approved"
+      ? { approved: true }
+      : { approved: false, feedback: run.approvalFeedback || "Rejected without feedback" };
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
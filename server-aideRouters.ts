@@ -3,7 +3,19 @@
  * All endpoints include proper authentication and authorization
  */
 
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
+import { PlanSchema } from "./server-agentPlan";
+import { getProject } from "./server-aideService";
+import { ToolPermissionsSchema } from "./server-agentTools";
+import { ApprovalPolicySchema } from "./server-approvals";
+import { ChangesetSchema } from "./server-changeset";
+import { PipelineSchema } from "./server-pipeline";
+import { promptRegistry, PromptOverridesSchema } from "./server-promptTemplates";
+import { runEvents } from "./server-runEvents";
+import { BudgetSchema } from "./server-usage";
+import { verifierRules, VerifierRulesConfigSchema } from "./server-verifierRules";
+import { getDb } from "./db";
 import { protectedProcedure, publicProcedure, router } from "./trpc";
 
 /**
@@ -76,6 +88,128 @@ export const projectsRouter = router({
       return { success: true };
     }),
 
+  updateApprovalPolicy: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        policy: ApprovalPolicySchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await updateProject(db, input.projectId, ctx.user.id, { approvalPolicy: input.policy });
+      return { success: true, policy: input.policy };
+    }),
+
+  /**
+   * Stages are checked for unknown transitions, unreachable stages and unbounded loops before saving;
+   * a null pipeline restores the default planner, coder, verifier, executor sequence
+   */
+  updatePipeline: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        pipeline: PipelineSchema.nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await updateProject(db, input.projectId, ctx.user.id, { pipeline: input.pipeline });
+      return { success: true, pipeline: input.pipeline };
+    }),
+
+  /**
+   * Runs stop with a "Budget exceeded" error once a run or the project reaches a limit
+   */
+  updateBudget: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        budget: BudgetSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await updateProject(db, input.projectId, ctx.user.id, { budget: input.budget });
+      return { success: true, budget: input.budget };
+    }),
+
+  /**
+   * Every registered version of the agents' prompt templates, to pin or override
+   */
+  promptTemplates: protectedProcedure.query(async () => {
+    return { templates: promptRegistry.list() };
+  }),
+
+  /**
+   * Pin a template to an earlier version to roll it back, or replace its text; an empty object
+   * returns every agent to the latest versions
+   */
+  updatePrompts: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        prompts: PromptOverridesSchema.superRefine((prompts, ctx) => {
+          try {
+            promptRegistry.validate(prompts);
+          } catch (error) {
+            ctx.addIssue({ code: "custom", message: error instanceof Error ? error.message : String(error) });
+          }
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await updateProject(db, input.projectId, ctx.user.id, { prompts: input.prompts });
+      return { success: true, prompts: input.prompts };
+    }),
+
+  /**
+   * Agent types left out keep their default tools; an empty list takes every tool away
+   */
+  updateToolPermissions: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        tools: ToolPermissionsSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await updateProject(db, input.projectId, ctx.user.id, { toolPermissions: input.tools });
+      return { success: true, tools: input.tools };
+    }),
+
+  /**
+   * The verifier's rules with their default severity, for configuring them per project
+   */
+  verifierRules: protectedProcedure.query(async () => {
+    return {
+      rules: verifierRules.list().map((rule) => ({
+        id: rule.id,
+        description: rule.description,
+        severity: rule.severity,
+        enabledByDefault: !rule.disabledByDefault,
+      })),
+    };
+  }),
+
+  /**
+   * Rule ids and options are checked against the registered rules before saving
+   */
+  updateVerifierRules: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        rules: VerifierRulesConfigSchema.superRefine((rules, ctx) => {
+          try {
+            verifierRules.validate(rules);
+          } catch (error) {
+            ctx.addIssue({ code: "custom", message: error instanceof Error ? error.message : String(error) });
+          }
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await updateProject(db, input.projectId, ctx.user.id, { verifierRules: input.rules });
+      return { success: true, rules: input.rules };
+    }),
+
   delete: protectedProcedure
     .input(z.object({ projectId: z.number() }))
     .mutation(async ({ ctx, input }) => {
@@ -151,6 +285,18 @@ export const filesRouter = router({
       // In real implementation: await deleteFile(db, input.projectId, ctx.user.id, input.path);
       return { success: true };
     }),
+
+  applyChangeset: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        changeset: ChangesetSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: return await applyChangeset(db, input.projectId, ctx.user.id, input.changeset);
+      return { success: true, written: [], deleted: [] };
+    }),
 });
 
 /**
@@ -246,7 +392,7 @@ export const agentMemoryRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // In real implementation: return await storeMemory(db, ctx.user.id, input.memoryType, input.key, input.value, input.projectId, input.embedding);
+      // In real implementation: const memoryId = await storeMemory(db, ctx.user.id, input.memoryType, input.key, input.value, input.projectId, input.embedding);
       return { success: true, memoryId: Math.random() };
     }),
 
@@ -279,7 +425,7 @@ export const agentTasksRouter = router({
     .input(
       z.object({
         projectId: z.number(),
-        status: z.enum(["pending", "running", "completed", "failed"]).optional(),
+        status: z.enum(["pending", "running", "completed", "failed", "dead_letter", "cancelled"]).optional(),
       })
     )
     .query(async ({ ctx, input }) => {
@@ -293,6 +439,7 @@ export const agentTasksRouter = router({
             status: "completed",
             prompt: "Create a React component",
             result: "Component created successfully",
+            attempt: 1,
             createdAt: new Date(),
             completedAt: new Date(),
           },
@@ -304,13 +451,15 @@ export const agentTasksRouter = router({
     .input(
       z.object({
         projectId: z.number(),
-        agentType: z.enum(["planner", "coder", "verifier", "executor"]),
+        agentType: z.enum(["planner", "coder", "verifier", "tester", "reviewer", "executor"]),
         prompt: z.string(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // In real implementation: return await createAgentTask(db, input.projectId, ctx.user.id, input.agentType, input.prompt);
-      return { success: true, taskId: Math.random() };
+      // In real implementation: const run = await createAgentRun(db, input.projectId, ctx.user.id, input.prompt);
+      // const task = await createAgentTask(db, input.projectId, ctx.user.id, input.agentType, input.prompt, 1, { runId: run.id });
+      // The pending row is the queue entry; AgentTaskQueue workers claim and run it
+      return { success: true, taskId: Math.random(), runId: Math.random(), status: "pending" };
     }),
 
   get: protectedProcedure
@@ -329,6 +478,7 @@ export const agentTasksRouter = router({
         status: "completed",
         prompt: "Create a React component",
         result: "Component created successfully",
+        attempt: 1,
         createdAt: new Date(),
         completedAt: new Date(),
       };
@@ -339,7 +489,7 @@ export const agentTasksRouter = router({
       z.object({
         taskId: z.number(),
         projectId: z.number(),
-        status: z.enum(["pending", "running", "completed", "failed"]).optional(),
+        status: z.enum(["pending", "running", "completed", "failed", "dead_letter", "cancelled"]).optional(),
         result: z.string().optional(),
         error: z.string().optional(),
       })
@@ -348,6 +498,231 @@ export const agentTasksRouter = router({
       // In real implementation: await updateAgentTask(db, input.taskId, input.projectId, ctx.user.id, {...});
       return { success: true };
     }),
+
+  updatePlan: protectedProcedure
+    .input(
+      z.object({
+        taskId: z.number(),
+        projectId: z.number(),
+        plan: PlanSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await updateAgentTask(db, input.taskId, input.projectId, ctx.user.id, { plan: input.plan });
+      return { success: true };
+    }),
+
+  rerunSteps: protectedProcedure
+    .input(
+      z.object({
+        taskId: z.number(),
+        projectId: z.number(),
+        stepIds: z.array(z.string()).min(1).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: const task = await getAgentTask(db, input.taskId, input.projectId, ctx.user.id);
+      // return await new AgentOrchestrator().executePlan(task.prompt, input.projectId, task.plan, input.stepIds);
+      return { success: true, tasks: [] };
+    }),
+
+  retry: protectedProcedure
+    .input(
+      z.object({
+        taskId: z.number(),
+        projectId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await requeueAgentTask(db, input.taskId, input.projectId, ctx.user.id);
+      return { success: true };
+    }),
+
+  onRunEvent: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        runId: z.number().optional(),
+      })
+    )
+    .subscription(async function* ({ ctx, input, signal }) {
+      // Events carry prompts and results, so only the project's owner may stream them
+      const project = await getProject(await getDb(), input.projectId, ctx.user.id);
+      if (!project) throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+
+      yield* runEvents.events({ projectId: input.projectId, runId: input.runId?.toString() }, signal);
+    }),
+
+  cancel: protectedProcedure
+    .input(
+      z.object({
+        taskId: z.number(),
+        projectId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await cancelAgentTask(db, input.taskId, input.projectId, ctx.user.id);
+      return { success: true, status: "cancelled" };
+    }),
+
+  pause: protectedProcedure
+    .input(
+      z.object({
+        taskId: z.number(),
+        projectId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await setAgentTaskPaused(db, input.taskId, input.projectId, ctx.user.id, true);
+      return { success: true, paused: true };
+    }),
+
+  resume: protectedProcedure
+    .input(
+      z.object({
+        taskId: z.number(),
+        projectId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await setAgentTaskPaused(db, input.taskId, input.projectId, ctx.user.id, false);
+      return { success: true, paused: false };
+    }),
+});
+
+/**
+ * Agent Runs Router - Orchestration requests and the agent tasks they produced
+ */
+export const agentRunsRouter = router({
+  list: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        status: z
+          .enum(["pending", "running", "awaiting_approval", "completed", "failed", "cancelled"])
+          .optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      // In real implementation: return await getAgentRuns(db, input.projectId, ctx.user.id, input.status);
+      return {
+        runs: [
+          {
+            id: 1,
+            projectId: input.projectId,
+            userId: ctx.user.id,
+            prompt: "Create a React component",
+            status: "completed",
+            outcome: "Exit code: 0",
+            startedAt: new Date(),
+            finishedAt: new Date(),
+            createdAt: new Date(),
+          },
+        ],
+      };
+    }),
+
+  get: protectedProcedure
+    .input(
+      z.object({
+        runId: z.number(),
+        projectId: z.number(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      // In real implementation: return await getAgentRun(db, input.runId, input.projectId, ctx.user.id);
+      return {
+        id: input.runId,
+        projectId: input.projectId,
+        userId: ctx.user.id,
+        prompt: "Create a React component",
+        status: "completed",
+        memoryIds: ["mem-1"],
+        outcome: "Exit code: 0",
+        usage: { promptTokens: 1200, completionTokens: 800, costUsd: 0.0055 },
+        startedAt: new Date(),
+        finishedAt: new Date(),
+        createdAt: new Date(),
+        tasks: [
+          {
+            id: 1,
+            runId: input.runId,
+            parentTaskId: null,
+            projectId: input.projectId,
+            agentType: "planner",
+            status: "completed",
+            prompt: "Create a React component",
+            result: "Component created successfully",
+            attempt: 1,
+            createdAt: new Date(),
+            completedAt: new Date(),
+          },
+        ],
+      };
+    }),
+
+  approve: protectedProcedure
+    .input(
+      z.object({
+        runId: z.number(),
+        projectId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await decideAgentRunApproval(db, input.runId, input.projectId, ctx.user.id, { approved: true });
+      return { success: true };
+    }),
+
+  reject: protectedProcedure
+    .input(
+      z.object({
+        runId: z.number(),
+        projectId: z.number(),
+        feedback: z.string().min(1),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await decideAgentRunApproval(db, input.runId, input.projectId, ctx.user.id, {
+      //   approved: false,
+      //   feedback: input.feedback,
+      // });
+      return { success: true };
+    }),
+
+  /**
+   * Continue a failed or cancelled run from its last finished stage
+   */
+  resume: protectedProcedure
+    .input(
+      z.object({
+        runId: z.number(),
+        projectId: z.number(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      // In real implementation: await resumeAgentRun(db, input.runId, input.projectId, ctx.user.id);
+      return { success: true, status: "pending" };
+    }),
+
+  /**
+   * Token and cost totals of the user's runs, optionally for one project
+   */
+  usage: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      // In real implementation: return await getUsageSummary(db, ctx.user.id, input.projectId);
+      const totals = { promptTokens: 1200, completionTokens: 800, costUsd: 0.0055 };
+      return {
+        total: totals,
+        byProject: { [input.projectId ?? 1]: totals },
+        byRun: { 1: totals },
+        byModel: { "gemini-1.5-pro": totals },
+      };
+    }),
 });
 
 /**
@@ -359,4 +734,5 @@ export const aideRouter = router({
   buildHistory: buildHistoryRouter,
   agentMemory: agentMemoryRouter,
   agentTasks: agentTasksRouter,
+  agentRuns: agentRunsRouter,
 });
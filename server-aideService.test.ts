@@ -0,0 +1,118 @@
+/**
+ * AIDE Platform - Service Tests
+ * Runs service queries against an in-memory database that evaluates their conditions
+ */
+
+import { describe, it, expect } from "vitest";
+import type { SQL } from "drizzle-orm";
+import { applyChangeset, getAgentRuns, type Database } from "./server-aideService";
+
+/**
+ * Whether a row satisfies a condition built from eq, and and or
+ */
+function matchesCondition(row: Record<string, any>, condition: SQL): boolean {
+  const chunks = condition.queryChunks as any[];
+  const text = (chunk: any) => (Array.isArray(chunk?.value) ? chunk.value.join("") : undefined);
+  const parts = chunks.filter((chunk) => chunk?.queryChunks) as SQL[];
+
+  if (chunks.some((chunk) => text(chunk) === " and ")) return parts.every((part) => matchesCondition(row, part));
+  if (chunks.some((chunk) => text(chunk) === " or ")) return parts.some((part) => matchesCondition(row, part));
+  if (parts.length === 1) return matchesCondition(row, parts[0]);
+
+  const operator = chunks.findIndex((chunk) => text(chunk) === " = ");
+  return row[chunks[operator - 1]] === chunks[operator + 1];
+}
+
+function memoryDatabase(tables: Record<string, Record<string, any>[]>): Database {
+  return {
+    insert: (table: string) => ({
+      values: async (values: Record<string, any>) => {
+        tables[table] = [...(tables[table] || []), { id: 100 + (tables[table] || []).length, ...values }];
+      },
+    }),
+    select: () => ({
+      from: (table: string) => ({
+        where: (condition: SQL) => {
+          const rows = (tables[table] || []).filter((row) => matchesCondition(row, condition));
+          return Object.assign(Promise.resolve(rows), { limit: async (n: number) => rows.slice(0, n) });
+        },
+      }),
+    }),
+    update: (table: string) => ({
+      set: (values: Record<string, any>) => ({
+        where: async (condition: SQL) => {
+          tables[table] = tables[table].map((row) => (matchesCondition(row, condition) ? { ...row, ...values } : row));
+        },
+      }),
+    }),
+    delete: (table: string) => ({
+      where: async (condition: SQL) => {
+        tables[table] = tables[table].filter((row) => !matchesCondition(row, condition));
+      },
+    }),
+  };
+}
+
+/**
+ * Test Suite: Agent Runs
+ */
+describe("Agent Runs", () => {
+  const db = memoryDatabase({
+    projects: [
+      { id: 1, userId: 7 },
+      { id: 2, userId: 8 },
+    ],
+    agentRuns: [
+      { id: 10, projectId: 1, status: "running" },
+      { id: 11, projectId: 1, status: "completed" },
+      { id: 12, projectId: 2, status: "running" },
+    ],
+  });
+
+  it("should only list the runs of the given project when filtering by status", async () => {
+    expect((await getAgentRuns(db, 1, 7)).map((run) => run.id)).toEqual([10, 11]);
+    expect((await getAgentRuns(db, 1, 7, "running")).map((run) => run.id)).toEqual([10]);
+    expect(await getAgentRuns(db, 2, 7, "running")).toEqual([]);
+  });
+});
+
+/**
+ * Test Suite: Applying Changesets
+ */
+describe("Applying Changesets", () => {
+  const changeset = {
+    summary: "Rename",
+    changes: [
+      { op: "modify" as const, path: "src/a.ts", diff: "@@ -1 +1 @@\n-old\n+new" },
+      { op: "create" as const, path: "src/b.ts", content: "b" },
+    ],
+  };
+  const project = () => ({
+    projects: [{ id: 1, userId: 7 }],
+    projectFiles: [{ id: 1, projectId: 1, path: "src/a.ts", content: "old", fileType: null }],
+  });
+
+  it("should restore the written files when a later write fails", async () => {
+    const tables = project();
+    const db = memoryDatabase(tables);
+    db.insert = () => ({ values: async () => Promise.reject(new Error("Connection lost")) });
+
+    await expect(applyChangeset(db, 1, 7, changeset)).rejects.toThrow("Failed to apply changeset: Connection lost");
+    expect(tables.projectFiles).toEqual([
+      expect.objectContaining({ path: "src/a.ts", content: "old", fileType: "typescript" }),
+    ]);
+  });
+
+  it("should name the files it could not restore alongside the original error", async () => {
+    const db = memoryDatabase(project());
+    const update = db.update;
+    let updates = 0;
+    db.insert = () => ({ values: async () => Promise.reject(new Error("Connection lost")) });
+    db.update = (table) =>
+      updates++ ? { set: () => ({ where: async () => Promise.reject(new Error("Still down")) }) } : update(table);
+
+    await expect(applyChangeset(db, 1, 7, changeset)).rejects.toThrow(
+      "Failed to apply changeset: Connection lost; could not restore src/a.ts (Still down)"
+    );
+  });
+});
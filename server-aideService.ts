@@ -3,10 +3,22 @@
  * Handles all CRUD operations with proper authorization
  */
 
-import { eq, and, isNull } from "drizzle-orm";
+import { eq, and, or, isNull, inArray, lt, lte, gte } from "drizzle-orm";
+import type { Plan } from "./server-agentPlan";
+import { parseApprovalPolicy, type ApprovalDecision, type ApprovalGate, type ApprovalPolicy } from "./server-approvals";
+import { applyChangesetToFiles, type Changeset, type FileMap } from "./server-changeset";
+import { parsePipeline, type Pipeline } from "./server-pipeline";
+import { parseBudget, sumUsage, type Budget, type UsageTotals } from "./server-usage";
+import { parsePromptOverrides, type PromptOverrides, type PromptRef } from "./server-promptTemplates";
+import { parseToolPermissions, type ToolCallRecord, type ToolPermissions } from "./server-agentTools";
+import type { TestResult } from "./server-testing";
+import type { ReviewComment } from "./server-codeReview";
+import { parseVerifierRulesConfig, type VerifierRulesConfig } from "./server-verifierRules";
+import type { SandboxResult } from "./server-sandbox";
+import type { RunCheckpoint } from "./server-agentOrchestrator";
 
 // Mock database interface - in real implementation, use drizzle ORM
-interface Database {
+export interface Database {
   insert: (table: any) => any;
   select: () => any;
   update: (table: any) => any;
@@ -20,6 +32,12 @@ interface Project {
   name: string;
   description?: string;
   status: "active" | "completed" | "archived";
+  approvalPolicy?: ApprovalPolicy;
+  pipeline?: Pipeline;
+  budget?: Budget;
+  prompts?: PromptOverrides;
+  toolPermissions?: ToolPermissions;
+  verifierRules?: VerifierRulesConfig;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -54,18 +72,69 @@ interface AgentMemory {
   key: string;
   value: string;
   embedding?: string;
+  accessCount: number;
+  lastAccessed: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * A run's last checkpoint, with the stored task ids of the orchestrator steps so resumed steps link to their parents
+ * and the files the run started from, which the checkpoint's accepted changesets apply to
+ */
+export interface StoredRunCheckpoint {
+  checkpoint: RunCheckpoint;
+  taskIds: Record<string, number>;
+  files: Record<string, string>;
+}
+
+interface AgentRun {
+  id: number;
+  projectId: number;
+  userId: number;
+  prompt: string;
+  status: "pending" | "running" | "awaiting_approval" | "completed" | "failed" | "cancelled";
+  approvalGate?: ApprovalGate | null;
+  approvalDecision?: "approved" | "rejected" | null;
+  approvalFeedback?: string | null;
+  memoryIds?: string[];
+  checkpoint?: StoredRunCheckpoint | null;
+  outcome?: string;
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+}
+
 interface AgentTask {
   id: number;
   projectId: number;
-  agentType: "planner" | "coder" | "verifier" | "executor";
-  status: "pending" | "running" | "completed" | "failed";
+  runId?: number;
+  parentTaskId?: number;
+  agentType: "planner" | "coder" | "verifier" | "tester" | "reviewer" | "executor";
+  status: "pending" | "running" | "completed" | "failed" | "dead_letter" | "cancelled";
   prompt: string;
   result?: string;
   error?: string;
+  attempt: number;
+  planStepId?: string;
+  plan?: Plan;
+  changeset?: Changeset;
+  execution?: SandboxResult;
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  costUsd?: number;
+  prompts?: PromptRef[];
+  toolCalls?: ToolCallRecord[];
+  testResults?: TestResult[];
+  reviewComments?: ReviewComment[];
+  retries: number;
+  maxRetries: number;
+  runAfter?: Date;
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  pausedAt?: Date;
   createdAt: Date;
   completedAt?: Date;
 }
@@ -214,6 +283,104 @@ export async function deleteFile(
     .where(and(eq("projectId", projectId), eq("path", path)));
 }
 
+/**
+ * A changeset that does not apply to the project's current files, or a project the user cannot change.
+ * Applying it again fails the same way.
+ */
+export class ChangesetRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChangesetRejectedError";
+  }
+}
+
+/**
+ * Apply one or more changesets to a project's files.
+ * Every change is validated against the current files before anything is written;
+ * if a write fails part-way, the paths already written are restored, and any path that cannot be is named in the error.
+ */
+export async function applyChangeset(
+  db: Database,
+  projectId: number,
+  userId: number,
+  changesets: Changeset | Changeset[]
+): Promise<{ written: string[]; deleted: string[] }> {
+  const project = await getProject(db, projectId, userId);
+  if (!project) throw new ChangesetRejectedError("Project not found or unauthorized");
+
+  const existing = await getProjectFiles(db, projectId, userId);
+  const before: FileMap = new Map(existing.map((file) => [file.path, file.content || ""]));
+  const fileTypes = new Map(existing.map((file) => [file.path, file.fileType]));
+
+  let after = before;
+  try {
+    for (const changeset of Array.isArray(changesets) ? changesets : [changesets]) {
+      after = applyChangesetToFiles(after, changeset);
+    }
+  } catch (error) {
+    throw new ChangesetRejectedError(error instanceof Error ? error.message : String(error));
+  }
+
+  const written = Array.from(after.keys()).filter(
+    (path) => !before.has(path) || before.get(path) !== after.get(path)
+  );
+  const deleted = Array.from(before.keys()).filter((path) => !after.has(path));
+  const completed: string[] = [];
+
+  try {
+    for (const path of written) {
+      await createOrUpdateFile(
+        db,
+        projectId,
+        userId,
+        path,
+        after.get(path) || "",
+        fileTypes.get(path) || inferFileType(path)
+      );
+      completed.push(path);
+    }
+
+    for (const path of deleted) {
+      await deleteFile(db, projectId, userId, path);
+      completed.push(path);
+    }
+  } catch (error) {
+    const unrestored: string[] = [];
+    for (const path of completed) {
+      try {
+        if (before.has(path)) {
+          const fileType = fileTypes.get(path) || inferFileType(path);
+          await createOrUpdateFile(db, projectId, userId, path, before.get(path) || "", fileType);
+        } else {
+          await deleteFile(db, projectId, userId, path);
+        }
+      } catch (restoreError) {
+        unrestored.push(`${path} (${restoreError instanceof Error ? restoreError.message : restoreError})`);
+      }
+    }
+
+    const message = `Failed to apply changeset: ${error instanceof Error ? error.message : error}`;
+    throw new Error(unrestored.length ? `${message}; could not restore ${unrestored.join(", ")}` : message);
+  }
+
+  return { written, deleted };
+}
+
+function inferFileType(path: string): string | undefined {
+  const extension = path.split(".").pop()?.toLowerCase();
+  const types: Record<string, string> = {
+    ts: "typescript",
+    tsx: "typescript",
+    js: "javascript",
+    jsx: "javascript",
+    json: "json",
+    css: "css",
+    html: "html",
+    md: "markdown",
+  };
+  return extension ? types[extension] : undefined;
+}
+
 /**
  * Build History Operations
  */
@@ -278,17 +445,27 @@ export async function storeMemory(
   value: string,
   projectId?: number,
   embedding?: string
-): Promise<AgentMemory> {
-  const result = await db.insert("agentMemory").values({
-    userId,
-    projectId,
-    memoryType,
-    key,
-    value,
-    embedding,
-  });
+): Promise<number> {
+  const [inserted] = await db
+    .insert("agentMemory")
+    .values({
+      userId,
+      projectId,
+      memoryType,
+      key,
+      value,
+      embedding,
+    })
+    .$returningId();
 
-  return result;
+  return inserted.id;
+}
+
+/**
+ * Every stored memory, for MemoryStorage to rebuild its indexes on startup
+ */
+export async function loadMemories(db: Database): Promise<AgentMemory[]> {
+  return db.select().from("agentMemory");
 }
 
 export async function retrieveMemory(
@@ -339,6 +516,18 @@ export async function updateMemory(
     .where(eq("id", memoryId));
 }
 
+/**
+ * Save the fields MemoryStorage maintains itself, access counts and recomputed embeddings;
+ * updatedAt is written back unchanged so reading a memory does not count as editing it
+ */
+export async function updateMemoryMetadata(
+  db: Database,
+  memoryId: number,
+  metadata: Partial<Pick<AgentMemory, "embedding" | "accessCount" | "lastAccessed">> & Pick<AgentMemory, "updatedAt">
+): Promise<void> {
+  await db.update("agentMemory").set(metadata).where(eq("id", memoryId));
+}
+
 export async function deleteMemory(
   db: Database,
   memoryId: number,
@@ -365,16 +554,21 @@ export async function createAgentTask(
   db: Database,
   projectId: number,
   userId: number,
-  agentType: "planner" | "coder" | "verifier" | "executor",
-  prompt: string
+  agentType: "planner" | "coder" | "verifier" | "tester" | "reviewer" | "executor",
+  prompt: string,
+  attempt: number = 1,
+  links: { runId?: number; parentTaskId?: number } = {}
 ): Promise<AgentTask> {
   const project = await getProject(db, projectId, userId);
   if (!project) throw new Error("Project not found or unauthorized");
 
   const result = await db.insert("agentTasks").values({
     projectId,
+    runId: links.runId,
+    parentTaskId: links.parentTaskId,
     agentType,
     prompt,
+    attempt,
     status: "pending",
   });
 
@@ -401,7 +595,7 @@ export async function getAgentTasks(
   db: Database,
   projectId: number,
   userId: number,
-  status?: "pending" | "running" | "completed" | "failed"
+  status?: AgentTask["status"]
 ): Promise<AgentTask[]> {
   const project = await getProject(db, projectId, userId);
   if (!project) return [];
@@ -435,3 +629,483 @@ export async function getAgentTask(
 
   return result[0] || null;
 }
+
+/**
+ * Agent Run Operations
+ */
+
+export async function createAgentRun(
+  db: Database,
+  projectId: number,
+  userId: number,
+  prompt: string
+): Promise<AgentRun> {
+  const project = await getProject(db, projectId, userId);
+  if (!project) throw new Error("Project not found or unauthorized");
+
+  const result = await db.insert("agentRuns").values({
+    projectId,
+    userId,
+    prompt,
+    status: "pending",
+  });
+
+  return result;
+}
+
+export async function getAgentRuns(
+  db: Database,
+  projectId: number,
+  userId: number,
+  status?: AgentRun["status"]
+): Promise<AgentRun[]> {
+  const project = await getProject(db, projectId, userId);
+  if (!project) return [];
+
+  return db
+    .select()
+    .from("agentRuns")
+    .where(status ? and(eq("projectId", projectId), eq("status", status)) : eq("projectId", projectId));
+}
+
+/**
+ * A run together with every agent task recorded for it, oldest first
+ */
+export async function getAgentRun(
+  db: Database,
+  runId: number,
+  projectId: number,
+  userId: number
+): Promise<(AgentRun & { tasks: AgentTask[]; usage: UsageTotals }) | null> {
+  const project = await getProject(db, projectId, userId);
+  if (!project) return null;
+
+  const result = await db
+    .select()
+    .from("agentRuns")
+    .where(and(eq("id", runId), eq("projectId", projectId)))
+    .limit(1);
+  if (!result[0]) return null;
+
+  const tasks: AgentTask[] = await db
+    .select()
+    .from("agentTasks")
+    .where(eq("runId", runId));
+
+  return { ...result[0], tasks: tasks.sort((a, b) => a.id - b.id), usage: sumUsage(tasks) };
+}
+
+/**
+ * Model usage of a user's runs, in total and per project, run and model.
+ * With projectId only that project's runs are counted.
+ */
+export async function getUsageSummary(
+  db: Database,
+  userId: number,
+  projectId?: number
+): Promise<{
+  total: UsageTotals;
+  byProject: Record<number, UsageTotals>;
+  byRun: Record<number, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+}> {
+  const runs: AgentRun[] = await db
+    .select()
+    .from("agentRuns")
+    .where(projectId ? and(eq("userId", userId), eq("projectId", projectId)) : eq("userId", userId));
+
+  const tasks: AgentTask[] = runs.length
+    ? await db
+        .select()
+        .from("agentTasks")
+        .where(inArray("runId", runs.map((run) => run.id)))
+    : [];
+
+  const group = <K extends string | number>(key: (task: AgentTask) => K | undefined) => {
+    const groups = {} as Record<K, AgentTask[]>;
+    for (const task of tasks) {
+      const k = key(task);
+      if (k === undefined) continue;
+      (groups[k] ||= []).push(task);
+    }
+    return Object.fromEntries(
+      Object.entries<AgentTask[]>(groups).map(([k, items]) => [k, sumUsage(items)])
+    ) as Record<K, UsageTotals>;
+  };
+
+  return {
+    total: sumUsage(tasks),
+    byProject: group((task) => task.projectId),
+    byRun: group((task) => task.runId),
+    byModel: group((task) => task.model),
+  };
+}
+
+/**
+ * Agent Task Queue Operations
+ * Used by queue workers; these run on behalf of the system and are not scoped to a user
+ */
+
+export async function getRunnableAgentTasks(
+  db: Database,
+  now: Date,
+  limit: number
+): Promise<AgentTask[]> {
+  return db
+    .select()
+    .from("agentTasks")
+    .where(
+      and(
+        isNull("pausedAt"),
+        or(
+          and(eq("status", "pending"), or(isNull("runAfter"), lte("runAfter", now))),
+          and(eq("status", "running"), lt("leaseExpiresAt", now))
+        )
+      )
+    )
+    .limit(limit);
+}
+
+export async function countLeasedAgentTasks(
+  db: Database,
+  projectId: number,
+  now: Date
+): Promise<number> {
+  const leased = await db
+    .select()
+    .from("agentTasks")
+    .where(and(eq("projectId", projectId), eq("status", "running"), gte("leaseExpiresAt", now)));
+
+  return leased.length;
+}
+
+export async function claimAgentTask(
+  db: Database,
+  task: Pick<AgentTask, "id" | "status" | "retries"> & { leaseOwner?: string | null },
+  owner: string,
+  leaseExpiresAt: Date
+): Promise<boolean> {
+  // Optimistic claim: only succeeds if no other worker changed the row since it was read
+  const [result] = await db
+    .update("agentTasks")
+    .set({ status: "running", leaseOwner: owner, leaseExpiresAt, retries: task.retries })
+    .where(
+      and(
+        eq("id", task.id),
+        eq("status", task.status),
+        task.leaseOwner ? eq("leaseOwner", task.leaseOwner) : isNull("leaseOwner")
+      )
+    );
+
+  return result?.affectedRows === 1;
+}
+
+export async function renewAgentTaskLease(
+  db: Database,
+  taskId: number,
+  owner: string,
+  leaseExpiresAt: Date
+): Promise<boolean> {
+  const [result] = await db
+    .update("agentTasks")
+    .set({ leaseExpiresAt })
+    .where(and(eq("id", taskId), eq("leaseOwner", owner), eq("status", "running")));
+
+  return result?.affectedRows === 1;
+}
+
+export async function getAgentTaskControl(
+  db: Database,
+  taskId: number
+): Promise<Pick<AgentTask, "status" | "pausedAt"> | null> {
+  const result = await db.select().from("agentTasks").where(eq("id", taskId)).limit(1);
+  const task = result[0];
+
+  return task ? { status: task.status, pausedAt: task.pausedAt } : null;
+}
+
+export async function releaseAgentTask(
+  db: Database,
+  taskId: number,
+  owner: string,
+  updates: Partial<Pick<AgentTask, "status" | "result" | "error" | "retries" | "runAfter" | "completedAt">>
+): Promise<void> {
+  await db
+    .update("agentTasks")
+    .set({ ...updates, leaseOwner: null, leaseExpiresAt: null })
+    .where(and(eq("id", taskId), eq("leaseOwner", owner)));
+}
+
+export async function updateAgentRunStatus(
+  db: Database,
+  runId: number,
+  updates: Partial<
+    Pick<
+      AgentRun,
+      "status" | "outcome" | "error" | "startedAt" | "finishedAt" | "approvalGate" | "approvalDecision" | "memoryIds"
+    >
+  >
+): Promise<void> {
+  await db.update("agentRuns").set(updates).where(eq("id", runId));
+}
+
+/**
+ * Budget of a project, for the worker running one of its tasks
+ */
+export async function getProjectBudget(db: Database, projectId: number): Promise<Budget> {
+  const result = await db.select().from("projects").where(eq("id", projectId)).limit(1);
+  return parseBudget(result[0]?.budget);
+}
+
+/**
+ * Everything the project's agent steps have used so far, checked against its budget.
+ * A resumed run counts its own earlier steps itself, so they can be left out with excludeRunId.
+ */
+export async function getProjectSpend(db: Database, projectId: number, excludeRunId?: number): Promise<UsageTotals> {
+  const tasks: AgentTask[] = await db.select().from("agentTasks").where(eq("projectId", projectId));
+  return sumUsage(excludeRunId === undefined ? tasks : tasks.filter((task) => task.runId !== excludeRunId));
+}
+
+/**
+ * The user who started a run; the worker reads and writes long-term memory on their behalf
+ */
+export async function getAgentRunOwner(db: Database, runId: number): Promise<number | null> {
+  const result = await db.select().from("agentRuns").where(eq("id", runId)).limit(1);
+  return result[0]?.userId ?? null;
+}
+
+/**
+ * Approval policy of a project, for the worker running one of its tasks
+ */
+export async function getApprovalPolicy(db: Database, projectId: number): Promise<ApprovalPolicy> {
+  const result = await db.select().from("projects").where(eq("id", projectId)).limit(1);
+  return parseApprovalPolicy(result[0]?.approvalPolicy);
+}
+
+/**
+ * The project's stored pipeline, or null when it uses the default one
+ */
+export async function getProjectPipeline(db: Database, projectId: number): Promise<Pipeline | null> {
+  const result = await db.select().from("projects").where(eq("id", projectId)).limit(1);
+  return parsePipeline(result[0]?.pipeline);
+}
+
+/**
+ * Prompt template overrides of a project, for the worker running one of its tasks
+ */
+export async function getProjectPrompts(db: Database, projectId: number): Promise<PromptOverrides> {
+  const result = await db.select().from("projects").where(eq("id", projectId)).limit(1);
+  return parsePromptOverrides(result[0]?.prompts);
+}
+
+/**
+ * The tools a project's agents may call, for the worker running one of its tasks
+ */
+export async function getProjectToolPermissions(db: Database, projectId: number): Promise<ToolPermissions> {
+  const result = await db.select().from("projects").where(eq("id", projectId)).limit(1);
+  return parseToolPermissions(result[0]?.toolPermissions);
+}
+
+/**
+ * Verifier rule settings of a project, for the worker running one of its tasks
+ */
+export async function getProjectVerifierRules(db: Database, projectId: number): Promise<VerifierRulesConfig> {
+  const result = await db.select().from("projects").where(eq("id", projectId)).limit(1);
+  return parseVerifierRulesConfig(result[0]?.verifierRules);
+}
+
+/**
+ * Store the progress of a run after a finished stage, replacing its previous checkpoint
+ */
+export async function saveAgentRunCheckpoint(db: Database, runId: number, checkpoint: StoredRunCheckpoint): Promise<void> {
+  await db.update("agentRuns").set({ checkpoint }).where(eq("id", runId));
+}
+
+/**
+ * The run's last checkpoint, or null when no stage of it has finished yet
+ */
+export async function getAgentRunCheckpoint(db: Database, runId: number): Promise<StoredRunCheckpoint | null> {
+  const result = await db.select().from("agentRuns").where(eq("id", runId)).limit(1);
+  const stored = result[0]?.checkpoint;
+  if (!stored) return null;
+
+  return typeof stored === "string" ? JSON.parse(stored) : stored;
+}
+
+/**
+ * Park a run at an approval gate; any earlier decision is cleared
+ */
+export async function requestAgentRunApproval(db: Database, runId: number, gate: ApprovalGate): Promise<void> {
+  await db
+    .update("agentRuns")
+    .set({ status: "awaiting_approval", approvalGate: gate, approvalDecision: null, approvalFeedback: null })
+    .where(eq("id", runId));
+}
+
+export async function getAgentRunApproval(
+  db: Database,
+  runId: number
+): Promise<Pick<AgentRun, "status" | "approvalGate" | "approvalDecision" | "approvalFeedback"> | null> {
+  const result = await db.select().from("agentRuns").where(eq("id", runId)).limit(1);
+  const run = result[0];
+
+  return run
+    ? {
+        status: run.status,
+        approvalGate: run.approvalGate,
+        approvalDecision: run.approvalDecision,
+        approvalFeedback: run.approvalFeedback,
+      }
+    : null;
+}
+
+/**
+ * Store a finished orchestration step under its run and return the new task id
+ */
+export async function recordAgentRunTask(
+  db: Database,
+  task: Pick<AgentTask, "projectId" | "runId" | "parentTaskId" | "agentType" | "status" | "prompt" | "attempt"> &
+    Partial<
+      Pick<
+        AgentTask,
+        | "result"
+        | "error"
+        | "planStepId"
+        | "plan"
+        | "changeset"
+        | "execution"
+        | "model"
+        | "promptTokens"
+        | "completionTokens"
+        | "costUsd"
+        | "prompts"
+        | "toolCalls"
+        | "testResults"
+        | "reviewComments"
+        | "completedAt"
+      >
+    >
+): Promise<number> {
+  const [inserted] = await db.insert("agentTasks").values(task).$returningId();
+  return inserted.id;
+}
+
+export async function requeueAgentTask(
+  db: Database,
+  taskId: number,
+  projectId: number,
+  userId: number
+): Promise<void> {
+  const task = await getAgentTask(db, taskId, projectId, userId);
+  if (!task) throw new Error("Task not found or unauthorized");
+  if (task.status !== "dead_letter") throw new Error("Only dead-lettered tasks can be retried");
+
+  await db
+    .update("agentTasks")
+    .set({ status: "pending", retries: 0, runAfter: null, error: null })
+    .where(eq("id", taskId));
+}
+
+/**
+ * Run Control Operations
+ * Queue workers pick these changes up while the task runs
+ */
+
+export async function cancelAgentTask(
+  db: Database,
+  taskId: number,
+  projectId: number,
+  userId: number
+): Promise<void> {
+  const task = await getAgentTask(db, taskId, projectId, userId);
+  if (!task) throw new Error("Task not found or unauthorized");
+  if (task.status !== "pending" && task.status !== "running") {
+    throw new Error(`Cannot cancel a task that is ${task.status}`);
+  }
+
+  // Dropping the lease makes the worker's next renewal fail as well
+  await db
+    .update("agentTasks")
+    .set({ status: "cancelled", leaseOwner: null, leaseExpiresAt: null, pausedAt: null, completedAt: new Date() })
+    .where(eq("id", taskId));
+
+  if (task.runId) {
+    await updateAgentRunStatus(db, task.runId, { status: "cancelled", finishedAt: new Date() });
+  }
+}
+
+export async function setAgentTaskPaused(
+  db: Database,
+  taskId: number,
+  projectId: number,
+  userId: number,
+  paused: boolean
+): Promise<void> {
+  const task = await getAgentTask(db, taskId, projectId, userId);
+  if (!task) throw new Error("Task not found or unauthorized");
+  if (task.status !== "pending" && task.status !== "running") {
+    throw new Error(`Cannot ${paused ? "pause" : "resume"} a task that is ${task.status}`);
+  }
+
+  await db
+    .update("agentTasks")
+    .set({ pausedAt: paused ? new Date() : null })
+    .where(eq("id", taskId));
+}
+
+/**
+ * Approve or reject the gate a run is waiting at; the worker picks the decision up and resumes
+ */
+export async function decideAgentRunApproval(
+  db: Database,
+  runId: number,
+  projectId: number,
+  userId: number,
+  decision: ApprovalDecision
+): Promise<void> {
+  const run = await getAgentRun(db, runId, projectId, userId);
+  if (!run) throw new Error("Run not found or unauthorized");
+  if (run.status !== "awaiting_approval") throw new Error("Run is not awaiting approval");
+
+  await db
+    .update("agentRuns")
+    .set({
+      approvalDecision: decision.approved ? "approved" : "rejected",
+      approvalFeedback: decision.approved ? null : decision.feedback,
+    })
+    .where(eq("id", runId));
+}
+
+/**
+ * Queue a failed or cancelled run again; the worker continues it from its last checkpoint
+ */
+export async function resumeAgentRun(db: Database, runId: number, projectId: number, userId: number): Promise<void> {
+  const run = await getAgentRun(db, runId, projectId, userId);
+  if (!run) throw new Error("Run not found or unauthorized");
+  if (run.status !== "failed" && run.status !== "cancelled") {
+    throw new Error(`Cannot resume a run that is ${run.status}`);
+  }
+  if (!run.checkpoint) throw new Error("Run has no checkpoint to resume from");
+
+  // The queued task the run started from; its steps are stored as its children
+  const queued = run.tasks.find((task) => !task.parentTaskId);
+  if (!queued) throw new Error("Run has no queued task to resume");
+
+  await db
+    .update("agentTasks")
+    .set({
+      status: "pending",
+      retries: 0,
+      runAfter: null,
+      error: null,
+      pausedAt: null,
+      completedAt: null,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    })
+    .where(eq("id", queued.id));
+  await db
+    .update("agentRuns")
+    .set({ status: "pending", error: null, outcome: null, finishedAt: null })
+    .where(eq("id", runId));
+}
@@ -0,0 +1,55 @@
+/**
+ * Approvals - Human review gates between agent stages
+ * A project's policy lists the gates at which a run stops in awaiting_approval until a user decides.
+ */
+
+import { z } from "zod";
+import type { Plan } from "./server-agentPlan";
+import type { Changeset } from "./server-changeset";
+
+export const APPROVAL_GATES = ["plan", "changeset", "execution"] as const;
+
+/**
+ * plan: after planning, before any code is written
+ * changeset: after a step's changeset is verified, before it is applied to the workspace
+ * execution: before the executor runs the project
+ */
+export type ApprovalGate = (typeof APPROVAL_GATES)[number];
+
+export const ApprovalPolicySchema = z.object({
+  gates: z.array(z.enum(APPROVAL_GATES)).default([]),
+});
+
+export type ApprovalPolicy = z.infer<typeof ApprovalPolicySchema>;
+
+export interface ApprovalRequest {
+  gate: ApprovalGate;
+  runId: string;
+  projectId: number;
+  plan?: Plan;
+  changeset?: Changeset;
+  planStepId?: string;
+}
+
+/**
+ * A rejection carries the reviewer's feedback, which is handed to the agent that produced the work
+ */
+export type ApprovalDecision = { approved: true } | { approved: false; feedback: string };
+
+/**
+ * Resolves once a reviewer has decided; should reject when the signal aborts
+ */
+export type ApprovalHandler = (request: ApprovalRequest, signal?: AbortSignal) => Promise<ApprovalDecision>;
+
+/**
+ * Read a stored policy; projects without one require no approvals
+ */
+export function parseApprovalPolicy(raw: unknown): ApprovalPolicy {
+  if (raw === null || raw === undefined) return { gates: [] };
+
+  const parsed = ApprovalPolicySchema.safeParse(typeof raw === "string" ? JSON.parse(raw) : raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid approval policy: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+  return parsed.data;
+}
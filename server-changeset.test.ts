@@ -0,0 +1,108 @@
+/**
+ * AIDE Platform - Changeset Tests
+ * Tests for parsing and applying multi-file changesets
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyChangesetToFiles, applyUnifiedDiff, normalizePath, parseChangeset } from "./server-changeset";
+
+const INDEX = ["import { add } from './add';", "", "console.log(add(1, 2));", ""].join("\n");
+
+/**
+ * Test Suite: Unified Diffs
+ */
+describe("Unified Diffs", () => {
+  it("should apply a modification hunk", () => {
+    const diff = [
+      "--- a/src/index.ts",
+      "+++ b/src/index.ts",
+      "@@ -1,3 +1,3 @@",
+      " import { add } from './add';",
+      " ",
+      "-console.log(add(1, 2));",
+      "+console.log(add(2, 3));",
+    ].join("\n");
+
+    expect(applyUnifiedDiff(INDEX, diff)).toBe(INDEX.replace("add(1, 2)", "add(2, 3)"));
+  });
+
+  it("should keep removed lines that start with dashes inside their hunk", () => {
+    const sql = ["-- users", "SELECT 1;", "---", "SELECT 2;"].join("\n");
+    const diff = ["--- a/q.sql", "+++ b/q.sql", "@@ -1,3 +1,1 @@", "--- users", " SELECT 1;", "----"].join("\n");
+
+    expect(applyUnifiedDiff(sql, diff)).toBe("SELECT 1;\nSELECT 2;");
+  });
+
+  it("should insert after the stated line when a hunk removes nothing", () => {
+    const diff = ["@@ -1,0 +2,1 @@", "+import { sub } from './sub';"].join("\n");
+
+    expect(applyUnifiedDiff(INDEX, diff).split("\n").slice(0, 3)).toEqual([
+      "import { add } from './add';",
+      "import { sub } from './sub';",
+      "",
+    ]);
+    expect(applyUnifiedDiff("a", "@@ -0,0 +1 @@\n+first")).toBe("first\na");
+  });
+
+  it("should locate hunks whose line numbers drifted", () => {
+    const diff = ["@@ -10,1 +10,2 @@", " console.log(add(1, 2));", "+console.log('done');"].join("\n");
+
+    expect(applyUnifiedDiff(INDEX, diff)).toContain("console.log(add(1, 2));\nconsole.log('done');");
+  });
+
+  it("should reject hunks that do not match", () => {
+    const diff = ["@@ -1,1 +1,1 @@", "-missing line", "+replacement"].join("\n");
+
+    expect(() => applyUnifiedDiff(INDEX, diff)).toThrow("does not match");
+  });
+});
+
+/**
+ * Test Suite: Changesets
+ */
+describe("Changesets", () => {
+  const files = new Map([
+    ["src/index.ts", INDEX],
+    ["src/old.ts", "export const old = true;"],
+  ]);
+
+  it("should apply create, delete and rename without mutating the input", () => {
+    const next = applyChangesetToFiles(files, {
+      summary: "",
+      changes: [
+        { op: "create", path: "./src/add.ts", content: "export const add = (a: number, b: number) => a + b;" },
+        { op: "rename", path: "src/old.ts", newPath: "src/legacy.ts" },
+        { op: "delete", path: "src/index.ts" },
+      ],
+    });
+
+    expect(Array.from(next.keys()).sort()).toEqual(["src/add.ts", "src/legacy.ts"]);
+    expect(files.has("src/index.ts")).toBe(true);
+  });
+
+  it("should reject invalid changes", () => {
+    expect(() =>
+      applyChangesetToFiles(files, { summary: "", changes: [{ op: "delete", path: "src/missing.ts" }] })
+    ).toThrow("does not exist");
+
+    expect(() =>
+      applyChangesetToFiles(files, {
+        summary: "",
+        changes: [
+          { op: "delete", path: "src/old.ts" },
+          { op: "create", path: "src/old.ts", content: "" },
+        ],
+      })
+    ).toThrow("more than once");
+  });
+
+  it("should reject paths outside the project", () => {
+    expect(() => normalizePath("../etc/passwd")).toThrow("Invalid file path");
+    expect(() => normalizePath("/etc/passwd")).toThrow("Invalid file path");
+  });
+
+  it("should validate changeset JSON", () => {
+    expect(() => parseChangeset('{"changes": [{"op": "chmod", "path": "a"}]}')).toThrow("Invalid changeset");
+    expect(parseChangeset('{"changes": [{"op": "delete", "path": "a"}]}').changes).toHaveLength(1);
+  });
+});
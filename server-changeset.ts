@@ -0,0 +1,248 @@
+/**
+ * Changesets - Multi-file edits produced by the Coder agent
+ * Supports create/modify/delete/rename per path, with unified-diff hunks for modifications
+ */
+
+import { z } from "zod";
+
+export const FileChangeSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("create"), path: z.string(), content: z.string() }),
+  z.object({ op: z.literal("modify"), path: z.string(), diff: z.string() }),
+  z.object({ op: z.literal("delete"), path: z.string() }),
+  z.object({ op: z.literal("rename"), path: z.string(), newPath: z.string(), diff: z.string().optional() }),
+]);
+
+export const ChangesetSchema = z.object({
+  summary: z.string().default(""),
+  changes: z.array(FileChangeSchema).min(1, "Changeset must contain at least one change"),
+});
+
+export type FileChange = z.infer<typeof FileChangeSchema>;
+export type Changeset = z.infer<typeof ChangesetSchema>;
+
+/**
+ * Project file contents keyed by path
+ */
+export type FileMap = Map<string, string>;
+
+export interface DiffHunk {
+  oldStart: number;
+  /**
+   * Lines the header says the hunk replaces; for a pure insertion it is 0 and oldStart is the line to insert after
+   */
+  oldCount: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+/**
+ * Parse a changeset from model output, accepting bare JSON or JSON wrapped in a markdown fence
+ */
+export function parseChangeset(text: string): Changeset {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    throw new Error("Changeset is not valid JSON");
+  }
+
+  const parsed = ChangesetSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid changeset: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Normalize a project-relative path, rejecting anything that escapes the project root
+ */
+export function normalizePath(path: string): string {
+  const normalized = path.trim().replace(/^\.\//, "");
+
+  if (
+    !normalized ||
+    normalized.startsWith("/") ||
+    normalized.includes("\\") ||
+    normalized.split("/").some((segment) => segment === ".." || segment === "")
+  ) {
+    throw new Error(`Invalid file path: ${path}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Parse the hunks of a unified diff. File headers (---/+++) are ignored outside hunks;
+ * a hunk ends once it holds the lines its header counts, so removed lines starting with "--" stay in it.
+ */
+export function parseUnifiedDiff(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (const line of diff.replace(/\n$/, "").split("\n")) {
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+    if (header) {
+      current = { oldStart: Number(header[1]), oldCount: Number(header[2] ?? 1), oldLines: [], newLines: [] };
+      oldRemaining = current.oldCount;
+      newRemaining = Number(header[3] ?? 1);
+      hunks.push(current);
+      continue;
+    }
+
+    const inHunk = oldRemaining > 0 || newRemaining > 0;
+    if (!current || line.startsWith("\\")) continue;
+    if (!inHunk && (line.startsWith("---") || line.startsWith("+++"))) continue;
+
+    // Counts are only a guide: models miscount, so lines past the stated counts still belong to the hunk
+    if (line.startsWith("+")) {
+      current.newLines.push(line.slice(1));
+      newRemaining--;
+    } else if (line.startsWith("-")) {
+      current.oldLines.push(line.slice(1));
+      oldRemaining--;
+    } else if (line.startsWith(" ") || line === "") {
+      current.oldLines.push(line.slice(1));
+      current.newLines.push(line.slice(1));
+      oldRemaining--;
+      newRemaining--;
+    }
+  }
+
+  if (hunks.length === 0) throw new Error("Diff contains no hunks");
+  return hunks;
+}
+
+/**
+ * Apply unified-diff hunks to file content. Each hunk is matched at its stated
+ * position first, then anywhere after the previous hunk; a missing match is an error.
+ */
+export function applyUnifiedDiff(content: string, diff: string): string {
+  const lines = content.split("\n");
+  let offset = 0;
+  let searchFrom = 0;
+
+  for (const hunk of parseUnifiedDiff(diff)) {
+    const start = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(0, start + offset);
+    const index = matchesAt(lines, hunk.oldLines, expected)
+      ? expected
+      : findLines(lines, hunk.oldLines, searchFrom);
+
+    if (index === -1) {
+      throw new Error(`Hunk at line ${hunk.oldStart} does not match the current file content`);
+    }
+
+    lines.splice(index, hunk.oldLines.length, ...hunk.newLines);
+    offset += hunk.newLines.length - hunk.oldLines.length;
+    searchFrom = index + hunk.newLines.length;
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Apply a changeset to a snapshot of project files, returning the new snapshot.
+ * The input map is never mutated; any invalid change throws before a result is produced.
+ */
+export function applyChangesetToFiles(files: FileMap, changeset: Changeset): FileMap {
+  const next: FileMap = new Map(files);
+  const touched = new Set<string>();
+
+  const claim = (path: string) => {
+    if (touched.has(path)) throw new Error(`Changeset touches ${path} more than once`);
+    touched.add(path);
+  };
+
+  for (const change of changeset.changes) {
+    const path = normalizePath(change.path);
+    claim(path);
+
+    switch (change.op) {
+      case "create":
+        if (next.has(path)) throw new Error(`Cannot create ${path}: file already exists`);
+        next.set(path, change.content);
+        break;
+      case "modify":
+        if (!next.has(path)) throw new Error(`Cannot modify ${path}: file does not exist`);
+        next.set(path, applyUnifiedDiff(next.get(path) || "", change.diff));
+        break;
+      case "delete":
+        if (!next.has(path)) throw new Error(`Cannot delete ${path}: file does not exist`);
+        next.delete(path);
+        break;
+      case "rename": {
+        const newPath = normalizePath(change.newPath);
+        claim(newPath);
+        if (!next.has(path)) throw new Error(`Cannot rename ${path}: file does not exist`);
+        if (next.has(newPath)) throw new Error(`Cannot rename ${path}: ${newPath} already exists`);
+        const content = next.get(path) || "";
+        next.delete(path);
+        next.set(newPath, change.diff ? applyUnifiedDiff(content, change.diff) : content);
+        break;
+      }
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Paths whose content exists after the changeset (created, modified or rename targets)
+ */
+export function changedPaths(changeset: Changeset): string[] {
+  return changeset.changes
+    .filter((change) => change.op !== "delete")
+    .map((change) => normalizePath(change.op === "rename" ? change.newPath : change.path));
+}
+
+/**
+ * Every path the changeset writes, deletes or renames, to detect changesets that edit the same files
+ */
+export function touchedPaths(changeset: Changeset): string[] {
+  const paths = changeset.changes.flatMap((change) =>
+    change.op === "rename" ? [change.path, change.newPath] : [change.path]
+  );
+  return [...new Set(paths.map(normalizePath))];
+}
+
+/**
+ * One changeset with the changes of both, e.g. the coder's code and the tester's tests.
+ * They must not touch the same paths, since a changeset may only touch each path once.
+ */
+export function combineChangesets(first: Changeset, second: Changeset): Changeset {
+  const shared = touchedPaths(second).filter((path) => touchedPaths(first).includes(path));
+  if (shared.length) throw new Error(`Changesets both touch ${shared.join(", ")}`);
+
+  return {
+    summary: [first.summary, second.summary].filter(Boolean).join("\n"),
+    changes: [...first.changes, ...second.changes],
+  };
+}
+
+/**
+ * One line per change, for task logs
+ */
+export function summarizeChangeset(changeset: Changeset): string {
+  const lines = changeset.changes.map((change) =>
+    change.op === "rename" ? `rename ${change.path} -> ${change.newPath}` : `${change.op} ${change.path}`
+  );
+  return [changeset.summary, ...lines].filter(Boolean).join("\n");
+}
+
+function matchesAt(lines: string[], expected: string[], index: number): boolean {
+  if (index + expected.length > lines.length) return false;
+  return expected.every((line, i) => lines[index + i] === line);
+}
+
+function findLines(lines: string[], expected: string[], from: number): number {
+  for (let i = from; i + expected.length <= lines.length; i++) {
+    if (matchesAt(lines, expected, i)) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,125 @@
+/**
+ * AIDE Platform - Code Review Tests
+ * Covers review comment parsing and the reviewer stage of a pipeline
+ */
+
+import { describe, it, expect } from "vitest";
+import { AgentOrchestrator } from "./server-agentOrchestrator";
+import { LocalStubProvider, type ChatMessage } from "./server-llmProviders";
+import { formatReviewComment, numberLines, parseReview, relatedFiles } from "./server-codeReview";
+
+const PLAN_JSON = JSON.stringify({
+  summary: "Add numbers",
+  steps: [{ id: "add", description: "Add function", files: ["src/add.ts"] }],
+});
+
+const FILES = new Map([
+  [
+    "src/add.ts",
+    'import { check } from "./check";\n\nexport function add(a: number, b: number): number {\n  check(a);\n  return a + b;\n}',
+  ],
+  ["src/check.ts", 'export function check(n: number): void {\n  if (!Number.isFinite(n)) throw new Error("NaN");\n}'],
+  ["src/other.ts", "export const other = 1;"],
+]);
+
+const review = (comments: object[]) => JSON.stringify({ summary: "Looked at add", comments });
+
+/**
+ * Test Suite: Code Review
+ */
+describe("Code Review", () => {
+  it("should anchor comments on the lines of the changed files", () => {
+    const parsed = parseReview(
+      review([
+        { path: "./src/add.ts", startLine: 4, severity: "error", message: "b is not checked", suggestion: "check(b);" },
+        { path: "src/add.ts", startLine: 5, endLine: 99, message: "Consider a named result" },
+      ]),
+      FILES
+    );
+
+    expect(parsed.comments.map(formatReviewComment)).toEqual([
+      "src/add.ts:4 [error] b is not checked\n  Suggestion: check(b);",
+      "src/add.ts:5-6 [warning] Consider a named result",
+    ]);
+    expect(() => parseReview(review([{ path: "src/gone.ts", startLine: 1, message: "?" }]), FILES)).toThrow(
+      "Review comment on unknown file src/gone.ts"
+    );
+    expect(() => parseReview(review([{ path: "src/add.ts", startLine: 9, message: "?" }]), FILES)).toThrow(
+      "Review comment on src/add.ts:9 is past the end of the file (6 lines)"
+    );
+    const backwards = review([{ path: "src/add.ts", startLine: 3, endLine: 2, message: "?" }]);
+    expect(() => parseReview(backwards, FILES)).toThrow("Comment ends before it starts");
+  });
+
+  it("should show the reviewer numbered changes and the code they import", () => {
+    expect(numberLines("a\nb")).toBe("1 | a\n2 | b");
+    expect(relatedFiles(FILES, ["src/add.ts"])).toEqual(["src/check.ts"]);
+  });
+
+  it("should send blocking comments back to the coder and keep the review trail on the task", async () => {
+    const coderInputs: ChatMessage[][] = [];
+    const reviews = [
+      review([
+        { path: "src/add.ts", startLine: 2, endLine: 3, severity: "error", message: "b is never checked" },
+        { path: "src/add.ts", startLine: 1, severity: "info", message: "Nice reuse of check" },
+      ]),
+      review([]),
+    ];
+    let reviewed = 0;
+    let reviewInput = "";
+    const code = [
+      "export function add(a: number, b: number): number {\n  check(a);\n  return a + b;\n}",
+      "export function add(a: number, b: number): number {\n  check(a);\n  check(b);\n  return a + b;\n}",
+    ];
+    const orchestrator = new AgentOrchestrator({
+      executor: { command: ["node", "-e", ""], requireNetworkIsolation: false },
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({
+          responder: (messages) => {
+            coderInputs.push(messages);
+            const content = `import { check } from "./check";\n${code[coderInputs.length - 1]}`;
+            return JSON.stringify({ summary: "Add", changes: [{ op: "create", path: "src/add.ts", content }] });
+          },
+        }),
+        reviewer: new LocalStubProvider({
+          responder: (messages) => {
+            reviewInput = messages[messages.length - 1].content;
+            return reviews[reviewed++];
+          },
+        }),
+      },
+    });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1, {
+      files: { "src/check.ts": FILES.get("src/check.ts")! },
+      pipeline: {
+        name: "reviewed",
+        stages: [
+          { id: "plan", agent: "planner", maxFailures: 1 },
+          { id: "code", agent: "coder", maxFailures: 1 },
+          { id: "review", agent: "reviewer", onFailure: "code", maxFailures: 3 },
+        ],
+      },
+    });
+
+    expect(tasks.map((t) => `${t.agentType}:${t.attempt}:${t.status}`)).toEqual([
+      "planner:1:completed",
+      "coder:1:completed",
+      "reviewer:1:failed",
+      "coder:2:completed",
+      "reviewer:2:completed",
+    ]);
+    expect(tasks[2].reviewComments).toEqual([
+      expect.objectContaining({ path: "src/add.ts", startLine: 2, endLine: 3, severity: "error" }),
+      expect.objectContaining({ startLine: 1, severity: "info" }),
+    ]);
+    expect(coderInputs[1][coderInputs[1].length - 1].content).toContain(
+      "A code review of attempt 1 requested changes:\n- src/add.ts:2-3 [error] b is never checked\n" +
+        "- src/add.ts:1 [info] Nice reuse of check"
+    );
+    expect(reviewInput).toContain('--- src/add.ts\n1 | import { check } from "./check";');
+    expect(reviewInput).toContain(`Surrounding code:\n--- src/check.ts\n${FILES.get("src/check.ts")}`);
+    expect(tasks[4].result).toBe("Looked at add\n0 review comments, 0 blocking");
+  });
+});
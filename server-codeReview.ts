@@ -0,0 +1,108 @@
+/**
+ * Code Review - Line-anchored review comments produced by the Reviewer agent
+ * Comments point at a line range of a file as it reads after the changeset, so they can be shown next to the code
+ * and handed back to the coder.
+ */
+
+import { posix } from "path";
+import { z } from "zod";
+import { normalizePath, type FileMap } from "./server-changeset";
+
+export const ReviewCommentSchema = z
+  .object({
+    path: z.string().min(1, "Comment path is required"),
+    startLine: z.number().int().positive(),
+    endLine: z.number().int().positive().optional(),
+    /**
+     * Errors block the changeset; warnings and info are kept on the task for the record
+     */
+    severity: z.enum(["error", "warning", "info"]).default("warning"),
+    message: z.string().min(1, "Comment message is required"),
+    /**
+     * Replacement code or a concrete next step
+     */
+    suggestion: z.string().optional(),
+  })
+  .transform((comment) => ({ ...comment, endLine: comment.endLine ?? comment.startLine }))
+  .refine((comment) => comment.endLine >= comment.startLine, { message: "Comment ends before it starts" });
+
+export const ReviewSchema = z.object({
+  summary: z.string().default(""),
+  comments: z.array(ReviewCommentSchema).default([]),
+});
+
+export type ReviewComment = z.infer<typeof ReviewCommentSchema>;
+export type Review = z.infer<typeof ReviewSchema>;
+
+/**
+ * Parse a review from model output, accepting bare JSON or JSON wrapped in a markdown fence.
+ * Every comment must point at lines of a file as it reads after the change.
+ */
+export function parseReview(text: string, files: FileMap): Review {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const source = fenced ? fenced[1] : text.slice(text.indexOf("{"), text.lastIndexOf("}") + 1);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch {
+    throw new Error("Review is not valid JSON");
+  }
+
+  const parsed = ReviewSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid review: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+
+  const comments = parsed.data.comments.map((comment) => {
+    const path = normalizePath(comment.path);
+    const content = files.get(path);
+    if (content === undefined) throw new Error(`Review comment on unknown file ${path}`);
+
+    const lines = content.split("\n").length;
+    if (comment.startLine > lines) {
+      throw new Error(`Review comment on ${path}:${comment.startLine} is past the end of the file (${lines} lines)`);
+    }
+    return { ...comment, path, endLine: Math.min(comment.endLine, lines) };
+  });
+
+  return { summary: parsed.data.summary, comments };
+}
+
+/**
+ * path:line or path:start-end, the severity and the comment, with the suggestion on the next line
+ */
+export function formatReviewComment(comment: ReviewComment): string {
+  const lines = comment.endLine > comment.startLine ? `${comment.startLine}-${comment.endLine}` : comment.startLine;
+  const suggestion = comment.suggestion ? `\n  Suggestion: ${comment.suggestion}` : "";
+  return `${comment.path}:${lines} [${comment.severity}] ${comment.message}${suggestion}`;
+}
+
+/**
+ * A file's content with 1-based line numbers, for the reviewer to anchor its comments on
+ */
+export function numberLines(content: string): string {
+  const lines = content.split("\n");
+  const width = String(lines.length).length;
+  return lines.map((line, i) => `${String(i + 1).padStart(width)} | ${line}`).join("\n");
+}
+
+const RELATIVE_IMPORT = /(?:from\s+|import\s*\(\s*|require\s*\(\s*)["'](\.{1,2}\/[^"']+)["']/g;
+const IMPORT_EXTENSIONS = ["", ".ts", ".tsx", ".js", ".jsx", "/index.ts", "/index.js"];
+
+/**
+ * Unchanged project files the changed files import by relative path: the surrounding code a reviewer needs
+ */
+export function relatedFiles(files: FileMap, changed: string[], limit = 10): string[] {
+  const related = new Set<string>();
+
+  for (const path of changed) {
+    for (const match of (files.get(path) || "").matchAll(RELATIVE_IMPORT)) {
+      const base = posix.normalize(posix.join(posix.dirname(path), match[1].replace(/\.js$/, "")));
+      const target = IMPORT_EXTENSIONS.map((ext) => base + ext).find((candidate) => files.has(candidate));
+      if (target && !changed.includes(target)) related.add(target);
+    }
+  }
+
+  return [...related].slice(0, limit);
+}
@@ -0,0 +1,95 @@
+/**
+ * AIDE Platform - Embedding Tests
+ * Checks that local embeddings rank related text above unrelated text and that providers are chosen from the environment
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  LocalEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  createEmbeddingProviderFromEnv,
+  tokenize,
+} from "./server-embeddings";
+import { VectorEmbeddingService } from "./server-memorySystem";
+
+/**
+ * Test Suite: Embeddings
+ */
+describe("Embeddings", () => {
+  it("should place similar texts close together and unrelated texts apart", async () => {
+    const service = new VectorEmbeddingService(new LocalEmbeddingProvider());
+    const similarity = async (a: string, b: string) =>
+      service.calculateSimilarity(await service.generateEmbedding(a), await service.generateEmbedding(b));
+
+    expect(tokenize("parseReviewComment in snake_case")).toEqual(["parse", "review", "comment", "in", "snake", "case"]);
+    expect(tokenize("Größe der Überprüfung, 重试上传")).toEqual(["größe", "der", "überprüfung", "重试上传"]);
+    expect(await similarity("Größe der Warteschlange prüfen", "Warteschlange Größe")).toBeGreaterThan(0.4);
+    expect(await similarity("Retry failed uploads", "Retry failed uplaods")).toBeGreaterThan(0.6);
+    expect(await similarity("Add numbers", "Add numbers with a pure exported function")).toBeGreaterThan(0.4);
+    expect(await similarity("Add numbers", "Configure the database connection pool")).toBeLessThan(0.2);
+    expect(await service.generateEmbedding("")).toEqual(new Array(384).fill(0));
+  });
+
+  it("should weigh words that appear in every stored text less than rare ones", async () => {
+    const provider = new LocalEmbeddingProvider();
+    const service = new VectorEmbeddingService(provider);
+    const query = "Fix the flaky login test";
+    const before = service.calculateSimilarity(
+      await service.generateEmbedding(query),
+      await service.generateEmbedding("Fix the build")
+    );
+
+    provider.observe(["Fix the build", "Fix the docs", "Fix the cache", "Fix the login test"]);
+    const after = service.calculateSimilarity(
+      await service.generateEmbedding(query),
+      await service.generateEmbedding("Fix the build")
+    );
+
+    expect(after).toBeLessThan(before);
+
+    provider.unobserve(["Fix the build", "Fix the docs", "Fix the cache", "Fix the login test"]);
+    const restored = service.calculateSimilarity(
+      await service.generateEmbedding(query),
+      await service.generateEmbedding("Fix the build")
+    );
+    expect(restored).toBeCloseTo(before, 10);
+  });
+
+  it("should call an OpenAI-compatible endpoint when configured", async () => {
+    expect(createEmbeddingProviderFromEnv({})).toBeInstanceOf(LocalEmbeddingProvider);
+    const provider = createEmbeddingProviderFromEnv({
+      AIDE_EMBEDDING_PROVIDER: "openai-compatible",
+      AIDE_EMBEDDING_BASE_URL: "http://embeddings.test/v1/",
+      AIDE_EMBEDDING_DIMENSIONS: "2",
+    });
+    expect(provider).toBeInstanceOf(OpenAICompatibleEmbeddingProvider);
+
+    const requests: any[] = [];
+    vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+      requests.push({ url, body: JSON.parse(init.body as string) });
+      return new Response(
+        JSON.stringify({
+          data: [
+            { index: 1, embedding: [0, 1] },
+            { index: 0, embedding: [1, 0] },
+          ],
+        })
+      );
+    });
+
+    try {
+      expect(await provider.embed(["a", "b"])).toEqual([
+        [1, 0],
+        [0, 1],
+      ]);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+    expect(requests).toEqual([
+      {
+        url: "http://embeddings.test/v1/embeddings",
+        body: { model: "text-embedding-3-small", input: ["a", "b"], dimensions: 2 },
+      },
+    ]);
+  });
+});
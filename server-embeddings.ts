@@ -0,0 +1,275 @@
+/**
+ * Text Embeddings - Turns memory text into vectors for semantic search
+ * The local provider needs no network: it hashes word and character n-grams into a fixed number of
+ * dimensions and weights them by TF-IDF over the texts it has seen. Deployments with an embedding
+ * model can use any OpenAI-compatible /embeddings endpoint instead.
+ */
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  /**
+   * Length of every vector the provider returns
+   */
+  readonly dimensions: number;
+  /**
+   * One vector per text, in order
+   */
+  embed(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+  /**
+   * Add stored documents to the corpus statistics; providers without any ignore it
+   */
+  observe?(texts: string[]): void;
+  /**
+   * Take documents that were observed back out of the corpus statistics, when they are changed or deleted
+   */
+  unobserve?(texts: string[]): void;
+}
+
+export interface EmbeddingConfig {
+  kind: "local" | "openai-compatible";
+  model?: string;
+  dimensions?: number;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export const DEFAULT_EMBEDDING_DIMENSIONS = 384;
+
+/**
+ * Weight of each feature kind; character trigrams are plentiful, so they count for less than whole words
+ */
+const FEATURE_WEIGHTS = { word: 1, bigram: 1, trigram: 0.5 };
+
+/**
+ * Lowercase words of a text in any script, with camelCase and snake_case identifiers split into their parts
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2")
+    .replace(/(\p{Lu}+)(\p{Lu}\p{Ll})/gu, "$1 $2")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Word unigrams and bigrams plus the character trigrams of each word, counted per feature
+ */
+function features(text: string): Map<string, { count: number; weight: number }> {
+  const counts = new Map<string, { count: number; weight: number }>();
+  const add = (feature: string, weight: number) => {
+    const current = counts.get(feature);
+    if (current) current.count++;
+    else counts.set(feature, { count: 1, weight });
+  };
+
+  const words = tokenize(text);
+  words.forEach((word, i) => {
+    add(`w:${word}`, FEATURE_WEIGHTS.word);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, FEATURE_WEIGHTS.bigram);
+
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, FEATURE_WEIGHTS.trigram);
+    }
+  });
+
+  return counts;
+}
+
+/**
+ * 32-bit FNV-1a
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length; the zero vector stays zero
+ */
+export function normalize(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return magnitude === 0 ? vector : vector.map((v) => v / magnitude);
+}
+
+/**
+ * Pack a vector as base64 little-endian float32 values, about a quarter of the size of its JSON
+ */
+export function serializeEmbedding(vector: number[]): string {
+  const view = new DataView(new ArrayBuffer(vector.length * 4));
+  vector.forEach((value, i) => view.setFloat32(i * 4, value, true));
+  return Buffer.from(view.buffer).toString("base64");
+}
+
+/**
+ * Read a stored vector; JSON arrays are accepted too
+ */
+export function parseEmbedding(text: string): number[] {
+  if (text.trimStart().startsWith("[")) return JSON.parse(text);
+
+  const bytes = Buffer.from(text, "base64");
+  if (bytes.length % 4 !== 0) throw new Error("Malformed embedding: length is not a whole number of floats");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return Array.from({ length: bytes.length / 4 }, (_, i) => view.getFloat32(i * 4, true));
+}
+
+/**
+ * Local Embedding Provider - Hashed n-gram features weighted by TF-IDF
+ * Each feature lands in one dimension with a sign taken from its hash, so collisions tend to cancel
+ * rather than add up. Document frequencies follow the texts as they are observed and unobserved; vectors
+ * already stored are not recomputed, which matters little once the corpus holds a few dozen documents.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly dimensions: number;
+  private documentFrequency = new Map<string, number>();
+  private documents = 0;
+
+  constructor(dimensions = DEFAULT_EMBEDDING_DIMENSIONS) {
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new Error(`Embedding dimensions must be a positive integer, got ${dimensions}`);
+    }
+    this.dimensions = dimensions;
+  }
+
+  observe(texts: string[]): void {
+    for (const text of texts) {
+      this.documents++;
+      for (const feature of features(text).keys()) {
+        this.documentFrequency.set(feature, (this.documentFrequency.get(feature) || 0) + 1);
+      }
+    }
+  }
+
+  unobserve(texts: string[]): void {
+    for (const text of texts) {
+      this.documents = Math.max(0, this.documents - 1);
+      for (const feature of features(text).keys()) {
+        const frequency = (this.documentFrequency.get(feature) || 0) - 1;
+        if (frequency > 0) this.documentFrequency.set(feature, frequency);
+        else this.documentFrequency.delete(feature);
+      }
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const [feature, { count, weight }] of features(text)) {
+      const hash = fnv1a(feature);
+      const sign = hash & 1 ? -1 : 1;
+      vector[(hash >>> 1) % this.dimensions] += sign * weight * (1 + Math.log(count)) * this.idf(feature);
+    }
+
+    return normalize(vector);
+  }
+
+  /**
+   * Smoothed inverse document frequency; every feature weighs 1 before any document is observed
+   */
+  private idf(feature: string): number {
+    const frequency = this.documentFrequency.get(feature) || 0;
+    return Math.log((1 + this.documents) / (1 + frequency)) + 1;
+  }
+}
+
+/**
+ * OpenAI-Compatible Embedding Provider - Calls the /embeddings endpoint of OpenAI, vLLM, Ollama and similar servers
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai-compatible";
+  readonly model: string;
+  readonly dimensions: number;
+  private apiKey?: string;
+  private baseUrl: string;
+  private requestDimensions: boolean;
+
+  /**
+   * Without configured dimensions the model's native size is used (1536 for text-embedding-3-small);
+   * configured dimensions are sent with each request, which not every server supports
+   */
+  constructor(config: Omit<EmbeddingConfig, "kind">) {
+    this.model = config.model || "text-embedding-3-small";
+    this.dimensions = config.dimensions ?? 1536;
+    this.requestDimensions = config.dimensions !== undefined;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || "https://api.openai.com/v1").replace(/\/+$/, "");
+  }
+
+  async embed(texts: string[], options: { signal?: AbortSignal } = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        ...(this.requestDimensions ? { dimensions: this.dimensions } : {}),
+      }),
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(`Embedding request failed (${response.status}): ${body}`);
+    }
+
+    const data = await response.json();
+    const rows: { index: number; embedding: number[] }[] = [...(data.data || [])].sort((a, b) => a.index - b.index);
+    if (rows.length !== texts.length) {
+      throw new Error(`Embedding endpoint returned ${rows.length} vectors for ${texts.length} texts`);
+    }
+
+    return rows.map((row) => {
+      if (row.embedding.length !== this.dimensions) {
+        throw new Error(`Embedding endpoint returned ${row.embedding.length} dimensions, expected ${this.dimensions}`);
+      }
+      return row.embedding;
+    });
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.kind) {
+    case "local":
+      return new LocalEmbeddingProvider(config.dimensions);
+    case "openai-compatible":
+      return new OpenAICompatibleEmbeddingProvider(config);
+    default:
+      throw new Error(`Unknown embedding provider: ${(config as EmbeddingConfig).kind}`);
+  }
+}
+
+/**
+ * Resolve the embedding provider from AIDE_EMBEDDING_* variables; without any, embeddings are computed locally
+ */
+export function embeddingConfigFromEnv(env: Record<string, string | undefined> = process.env): EmbeddingConfig {
+  const kind = (env.AIDE_EMBEDDING_PROVIDER || "local") as EmbeddingConfig["kind"];
+  const dimensions = env.AIDE_EMBEDDING_DIMENSIONS;
+
+  return {
+    kind,
+    model: env.AIDE_EMBEDDING_MODEL,
+    dimensions: dimensions !== undefined ? Number(dimensions) : undefined,
+    apiKey: env.AIDE_EMBEDDING_API_KEY || (kind === "openai-compatible" ? env.OPENAI_API_KEY : undefined),
+    baseUrl: env.AIDE_EMBEDDING_BASE_URL || (kind === "openai-compatible" ? env.OPENAI_BASE_URL : undefined),
+  };
+}
+
+export function createEmbeddingProviderFromEnv(
+  env: Record<string, string | undefined> = process.env
+): EmbeddingProvider {
+  return createEmbeddingProvider(embeddingConfigFromEnv(env));
+}
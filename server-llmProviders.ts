@@ -0,0 +1,405 @@
+/**
+ * LLM Providers - Pluggable model backends for the agent system
+ * Adapters for Google Gemini, OpenAI-compatible endpoints and a deterministic local stub
+ */
+
+import { cassetteProviderFromEnv } from "./server-modelCassette";
+
+export type AgentModelRole = "planner" | "coder" | "verifier" | "tester" | "reviewer";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  /**
+   * Streams hand the token counts the backend reports to onUsage once they end; backends that report none skip it
+   */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  finishReason?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Common interface implemented by every model backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly temperature: number;
+  readonly maxTokens: number;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<CompletionResult>;
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+}
+
+export interface ProviderConfig {
+  kind: "gemini" | "openai-compatible" | "local-stub";
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Read server-sent events from a fetch response body, yielding each `data:` payload
+ */
+async function* readServerSentEvents(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("data:")) {
+        yield trimmed.slice(5).trim();
+      }
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith("data:")) {
+    yield rest.slice(5).trim();
+  }
+}
+
+async function assertOk(response: Response, providerName: string): Promise<void> {
+  if (response.ok) return;
+  const body = await response.text().catch(() => "");
+  throw new Error(`${providerName} request failed (${response.status}): ${body}`);
+}
+
+/**
+ * Gemini Provider - Google Generative Language API
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  readonly model: string;
+  readonly temperature: number;
+  readonly maxTokens: number;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config: Omit<ProviderConfig, "kind">) {
+    if (!config.apiKey) throw new Error("Gemini provider requires an API key");
+    this.model = config.model;
+    this.temperature = config.temperature ?? DEFAULT_TEMPERATURE;
+    this.maxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl || "https://generativelanguage.googleapis.com/v1beta";
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    const response = await fetch(
+      `${this.baseUrl}/models/${this.model}:generateContent`,
+      {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify(this.buildBody(messages, options)),
+        signal: options.signal,
+      }
+    );
+    await assertOk(response, "Gemini");
+
+    const data = await response.json();
+    const candidate = data.candidates?.[0];
+
+    return {
+      content: this.extractText(candidate),
+      model: this.model,
+      finishReason: candidate?.finishReason,
+      usage: data.usageMetadata ? this.usageOf(data.usageMetadata) : undefined,
+    };
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    const response = await fetch(
+      `${this.baseUrl}/models/${this.model}:streamGenerateContent?alt=sse`,
+      {
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify(this.buildBody(messages, options)),
+        signal: options.signal,
+      }
+    );
+    await assertOk(response, "Gemini");
+
+    // Every chunk carries the usage so far; the last one has the totals
+    let usage: TokenUsage | undefined;
+    for await (const payload of readServerSentEvents(response)) {
+      const chunk = JSON.parse(payload);
+      if (chunk.usageMetadata) usage = this.usageOf(chunk.usageMetadata);
+      const text = this.extractText(chunk.candidates?.[0]);
+      if (text) yield text;
+    }
+    if (usage) options.onUsage?.(usage);
+  }
+
+  private usageOf(metadata: { promptTokenCount?: number; candidatesTokenCount?: number }): TokenUsage {
+    return {
+      promptTokens: metadata.promptTokenCount || 0,
+      completionTokens: metadata.candidatesTokenCount || 0,
+    };
+  }
+
+  /**
+   * The key goes in a header rather than the query string, which proxies and access logs record
+   */
+  private headers(): Record<string, string> {
+    return { "Content-Type": "application/json", "x-goog-api-key": this.apiKey };
+  }
+
+  private buildBody(messages: ChatMessage[], options: CompletionOptions) {
+    const system = messages.filter((m) => m.role === "system");
+
+    return {
+      systemInstruction: system.length
+        ? { parts: [{ text: system.map((m) => m.content).join("\n\n") }] }
+        : undefined,
+      contents: messages
+        .filter((m) => m.role !== "system")
+        .map((m) => ({
+          role: m.role === "assistant" ? "model" : "user",
+          parts: [{ text: m.content }],
+        })),
+      generationConfig: {
+        temperature: options.temperature ?? this.temperature,
+        maxOutputTokens: options.maxTokens ?? this.maxTokens,
+      },
+    };
+  }
+
+  private extractText(candidate: any): string {
+    const parts: { text?: string }[] = candidate?.content?.parts || [];
+    return parts.map((p) => p.text || "").join("");
+  }
+}
+
+/**
+ * OpenAI-Compatible Provider - Any endpoint implementing /chat/completions
+ * (OpenAI, vLLM, Ollama, LM Studio, llama.cpp server, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai-compatible";
+  readonly model: string;
+  readonly temperature: number;
+  readonly maxTokens: number;
+  private apiKey?: string;
+  private baseUrl: string;
+
+  constructor(config: Omit<ProviderConfig, "kind">) {
+    this.model = config.model;
+    this.temperature = config.temperature ?? DEFAULT_TEMPERATURE;
+    this.maxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl || "https://api.openai.com/v1").replace(/\/+$/, "");
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify(this.buildBody(messages, options, false)),
+      signal: options.signal,
+    });
+    await assertOk(response, "OpenAI-compatible");
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+
+    return {
+      content: choice?.message?.content || "",
+      model: data.model || this.model,
+      finishReason: choice?.finish_reason,
+      usage: data.usage ? this.usageOf(data.usage) : undefined,
+    };
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify(this.buildBody(messages, options, true)),
+      signal: options.signal,
+    });
+    await assertOk(response, "OpenAI-compatible");
+
+    // With include_usage the last chunk before [DONE] has no choices, only the usage
+    let usage: TokenUsage | undefined;
+    for await (const payload of readServerSentEvents(response)) {
+      if (payload === "[DONE]") break;
+      const chunk = JSON.parse(payload);
+      if (chunk.usage) usage = this.usageOf(chunk.usage);
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+    if (usage) options.onUsage?.(usage);
+  }
+
+  private usageOf(usage: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage {
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+    };
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+    return headers;
+  }
+
+  private buildBody(messages: ChatMessage[], options: CompletionOptions, stream: boolean) {
+    return {
+      model: this.model,
+      messages,
+      temperature: options.temperature ?? this.temperature,
+      max_tokens: options.maxTokens ?? this.maxTokens,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+    };
+  }
+}
+
+/**
+ * Local Stub Provider - Deterministic, offline provider for tests and CI
+ * Responses come from the supplied responder; by default the last user message is echoed
+ */
+export class LocalStubProvider implements LLMProvider {
+  readonly name = "local-stub";
+  readonly model: string;
+  readonly temperature: number;
+  readonly maxTokens: number;
+  private responder: (messages: ChatMessage[]) => string;
+
+  constructor(
+    config: Partial<Omit<ProviderConfig, "kind">> & {
+      responder?: (messages: ChatMessage[]) => string;
+    } = {}
+  ) {
+    this.model = config.model || "local-stub";
+    this.temperature = config.temperature ?? 0;
+    this.maxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
+    this.responder =
+      config.responder ||
+      ((messages) => {
+        const lastUser = [...messages].reverse().find((m) => m.role === "user");
+        return `[${this.model}] ${lastUser?.content || ""}`;
+      });
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    if (options.signal?.aborted) throw new Error("Request aborted");
+
+    const content = this.responder(messages);
+    return {
+      content,
+      model: this.model,
+      finishReason: "stop",
+      usage: {
+        promptTokens: estimateTokens(messages.map((m) => m.content).join("\n")),
+        completionTokens: estimateTokens(content),
+      },
+    };
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    const { content, usage } = await this.complete(messages, options);
+    // Split on whitespace boundaries so the stream re-joins to the exact completion
+    for (const token of content.match(/\s*\S+\s*/g) || []) {
+      yield token;
+    }
+    if (usage) options.onUsage?.(usage);
+  }
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for providers that report no usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Create a provider from a configuration object
+ */
+export function createProvider(config: ProviderConfig): LLMProvider {
+  switch (config.kind) {
+    case "gemini":
+      return new GeminiProvider(config);
+    case "openai-compatible":
+      return new OpenAICompatibleProvider(config);
+    case "local-stub":
+      return new LocalStubProvider(config);
+    default:
+      throw new Error(`Unknown LLM provider: ${(config as ProviderConfig).kind}`);
+  }
+}
+
+/**
+ * Resolve the provider configuration for an agent from environment variables.
+ * Agent-specific variables (AIDE_CODER_MODEL) take precedence over the shared ones (AIDE_LLM_MODEL).
+ * Without a configured provider agents use the local stub, except in production, where that is an error.
+ */
+export function providerConfigFromEnv(
+  role: AgentModelRole,
+  env: Record<string, string | undefined> = process.env
+): ProviderConfig {
+  const prefix = `AIDE_${role.toUpperCase()}_`;
+  const read = (name: string) => env[`${prefix}${name}`] || env[`AIDE_LLM_${name}`];
+
+  const provider = read("PROVIDER");
+  if (!provider && env.NODE_ENV === "production") {
+    throw new Error(`No model provider is configured for the ${role}; set AIDE_LLM_PROVIDER or ${prefix}PROVIDER`);
+  }
+
+  const kind = (provider || "local-stub") as ProviderConfig["kind"];
+  const temperature = read("TEMPERATURE");
+  const maxTokens = read("MAX_TOKENS");
+
+  return {
+    kind,
+    model: read("MODEL") || (kind === "gemini" ? "gemini-1.5-pro" : `${role}-stub`),
+    temperature: temperature !== undefined ? Number(temperature) : undefined,
+    maxTokens: maxTokens !== undefined ? Number(maxTokens) : undefined,
+    apiKey: read("API_KEY") || (kind === "gemini" ? env.GOOGLE_API_KEY : env.OPENAI_API_KEY),
+    baseUrl: read("BASE_URL") || (kind === "openai-compatible" ? env.OPENAI_BASE_URL : undefined),
+  };
+}
+
+/**
+ * Create an agent's provider from the environment, recording or replaying its calls when AIDE_CASSETTE is set
+ */
+export function createProviderFromEnv(
+  role: AgentModelRole,
+  env: Record<string, string | undefined> = process.env
+): LLMProvider {
+  return cassetteProviderFromEnv(role, () => createProvider(providerConfigFromEnv(role, env)), env);
+}
@@ -0,0 +1,135 @@
+/**
+ * AIDE Platform - Memory System Tests
+ * Checks that memories are written to the database and searchable again after a restart
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import type { Database } from "./server-aideService";
+import { LocalEmbeddingProvider, parseEmbedding, serializeEmbedding } from "./server-embeddings";
+import { MemoryContext, MemoryStorage, VectorEmbeddingService } from "./server-memorySystem";
+
+/**
+ * Records inserts and updates; conditions are not evaluated and selects return the given rows
+ */
+function recordingDatabase(rows: Record<string, any>[] = []) {
+  const inserted: Record<string, any>[] = [];
+  const updates: Record<string, any>[] = [];
+
+  const db: Database = {
+    insert: () => ({
+      values: (values: Record<string, any>) => ({
+        $returningId: async () => {
+          inserted.push({ id: 100 + inserted.length, ...values });
+          return [{ id: 100 + inserted.length - 1 }];
+        },
+      }),
+    }),
+    select: () => ({
+      from: () => Object.assign(Promise.resolve(rows), { where: () => ({ limit: async () => rows }) }),
+    }),
+    update: () => ({
+      set: (values: Record<string, any>) => ({
+        where: async () => {
+          updates.push(values);
+        },
+      }),
+    }),
+    delete: () => ({ where: async () => undefined }),
+  };
+
+  return { db, inserted, updates };
+}
+
+const embeddings = () => new VectorEmbeddingService(new LocalEmbeddingProvider());
+
+/**
+ * Test Suite: Memory System
+ */
+describe("Memory System", () => {
+  it("should store embeddings compactly and read them back", () => {
+    expect(parseEmbedding(serializeEmbedding([0.25, -1, 0.5, 0]))).toEqual([0.25, -1, 0.5, 0]);
+
+    const vector = Array.from({ length: 384 }, (_, i) => Math.sin(i) / 20);
+    const packed = serializeEmbedding(vector);
+    expect(parseEmbedding(packed).map((v, i) => Math.abs(v - vector[i]) < 1e-6)).not.toContain(false);
+    expect(packed.length * 3).toBeLessThan(JSON.stringify(vector).length);
+    expect(parseEmbedding("[0.1, 0.2]")).toEqual([0.1, 0.2]);
+    expect(() => parseEmbedding("AAA=")).toThrow("Malformed embedding");
+  });
+
+  it("should write stored memories and their access counts to the database", async () => {
+    const { db, inserted, updates } = recordingDatabase();
+    const storage = new MemoryStorage(embeddings(), db);
+
+    const entry = await storage.store(1, "lesson", "retry", "Retry failed uploads with exponential backoff", 4);
+    await storage.retrieve({ userId: 1, projectId: 4, query: "retry failed uploads" });
+
+    expect(entry.id).toBe("mem-100");
+    expect(inserted[0]).toMatchObject({ userId: 1, projectId: 4, memoryType: "lesson", key: "retry" });
+    expect(parseEmbedding(inserted[0].embedding)).toHaveLength(384);
+    expect(updates).toEqual([{ accessCount: 1, lastAccessed: expect.any(Date), updatedAt: entry.updatedAt }]);
+  });
+
+  it("should keep the keys of learned memories within the key column", async () => {
+    const { db, inserted } = recordingDatabase();
+    const memory = new MemoryContext(new MemoryStorage(embeddings(), db));
+
+    await memory.learnFromExecution(1, 4, "Add numbers ".repeat(40), "Add numbers with a pure function", true);
+    await memory.learnFromExecution(1, 4, "Add numbers ".repeat(40), "Add numbers with a pure function", true);
+
+    expect(inserted[0].key.length).toBeLessThanOrEqual(255);
+    expect(inserted[0].key).toMatch(/^Add numbers Add/);
+    expect(inserted[1].key).not.toBe(inserted[0].key);
+  });
+
+  it("should return memories without waiting for their access to be recorded", async () => {
+    const { db } = recordingDatabase();
+    const storage = new MemoryStorage(embeddings(), db);
+    await storage.store(1, "lesson", "retry", "Retry failed uploads with exponential backoff", 4);
+
+    db.update = () => ({ set: () => ({ where: () => new Promise((_, reject) => setTimeout(reject, 10, "down")) }) });
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const { entries } = await storage.retrieve({ userId: 1, query: "retry failed uploads" });
+      expect(entries.map((e) => e.id)).toEqual(["mem-100"]);
+      expect(errors).not.toHaveBeenCalled();
+
+      await vi.waitFor(() => expect(errors).toHaveBeenCalledWith("Failed to record memory access:", "down"));
+    } finally {
+      errors.mockRestore();
+    }
+  });
+
+  it("should rebuild the index from the stored memories and embed the ones without an embedding", async () => {
+    const stored = new Date("2026-01-01");
+    const row = (id: number, value: string, embedding?: string) => ({
+      id,
+      userId: 1,
+      projectId: 4,
+      memoryType: "solution",
+      key: `k${id}`,
+      value,
+      embedding,
+      accessCount: 3,
+      lastAccessed: stored,
+      createdAt: stored,
+      updatedAt: stored,
+    });
+    const provider = new LocalEmbeddingProvider();
+    const [retry] = await provider.embed(["Retry failed uploads with exponential backoff"]);
+    const { db, updates } = recordingDatabase([
+      row(7, "Retry failed uploads with exponential backoff", serializeEmbedding(retry)),
+      row(8, "Size the database connection pool to the worker count"),
+    ]);
+
+    const storage = await MemoryStorage.fromDatabase(db, embeddings());
+
+    expect(updates).toEqual([{ embedding: expect.any(String), updatedAt: stored }]);
+    const { entries } = await storage.retrieve({ userId: 1, projectId: 4, query: "connection pool size" });
+    expect(entries.map((e) => e.id)).toEqual(["mem-8"]);
+    expect(entries[0]).toMatchObject({ accessCount: 4, createdAt: stored });
+    expect((await storage.retrieve({ userId: 1, query: "retry uploads" })).entries.map((e) => e.id)).toEqual([
+      "mem-7",
+    ]);
+  });
+});
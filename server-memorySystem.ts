@@ -3,7 +3,24 @@
  * Implements vector storage for semantic search and similarity matching
  */
 
-interface MemoryEntry {
+import { randomUUID } from "crypto";
+import {
+  deleteMemory,
+  loadMemories,
+  storeMemory,
+  updateMemory,
+  updateMemoryMetadata,
+  type Database,
+} from "./server-aideService";
+import {
+  createEmbeddingProviderFromEnv,
+  parseEmbedding,
+  serializeEmbedding,
+  type EmbeddingProvider,
+} from "./server-embeddings";
+import { HnswIndex } from "./server-vectorIndex";
+
+export interface MemoryEntry {
   id: string;
   userId: number;
   projectId?: number;
@@ -36,20 +53,32 @@ interface MemoryRetrievalResult {
  * Vector Embedding Service - Generates embeddings for semantic search
  */
 export class VectorEmbeddingService {
+  constructor(private provider: EmbeddingProvider = createEmbeddingProviderFromEnv()) {}
+
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
+
   /**
    * Generate embedding for text
-   * In real implementation: use OpenAI embeddings or similar
    */
   async generateEmbedding(text: string): Promise<number[]> {
-    // Mock embedding - in production use actual embedding service
-    const hash = this.simpleHash(text);
-    const embedding: number[] = [];
+    const [embedding] = await this.provider.embed([text]);
+    return embedding;
+  }
 
-    for (let i = 0; i < 384; i++) {
-      embedding.push(Math.sin(hash + i) * 0.5 + 0.5);
-    }
+  /**
+   * Count a stored text towards the provider's corpus statistics before it is embedded
+   */
+  observe(text: string): void {
+    this.provider.observe?.([text]);
+  }
 
-    return embedding;
+  /**
+   * Remove a text that was changed or deleted from the provider's corpus statistics
+   */
+  unobserve(text: string): void {
+    this.provider.unobserve?.([text]);
   }
 
   /**
@@ -75,26 +104,93 @@ export class VectorEmbeddingService {
 
     return dotProduct / (magnitude1 * magnitude2);
   }
+}
 
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = (hash << 5) - hash + char;
-      hash = hash & hash;
-    }
-    return hash;
-  }
+/**
+ * Memories less similar than this to a query are not returned
+ */
+const RELEVANCE_THRESHOLD = 0.3;
+
+/**
+ * Characters of a task description kept in the key of a learned memory; with the id it fits the 255-character column
+ */
+const LEARNED_KEY_LENGTH = 200;
+
+/**
+ * Stored memories are "mem-" followed by their agentMemory row id
+ */
+function rowId(id: string): number {
+  return Number(id.slice("mem-".length));
 }
 
 /**
  * Memory Storage - Persists and retrieves memory entries
+ * Embeddings are indexed in one nearest-neighbor graph per user and project, kept current as memories change.
+ * With a database every change is written to the agentMemory table first; without one memories last
+ * as long as the process.
  */
 export class MemoryStorage {
   private memories: Map<string, MemoryEntry> = new Map();
-  private embeddingService = new VectorEmbeddingService();
+  private indexes = new Map<number, Map<number | undefined, HnswIndex>>();
   private nextId = 1;
 
+  constructor(
+    private embeddingService: VectorEmbeddingService = new VectorEmbeddingService(),
+    private db?: Database
+  ) {}
+
+  /**
+   * A storage holding every memory in the database, indexed and ready to search
+   */
+  static async fromDatabase(
+    db: Database,
+    embeddingService: VectorEmbeddingService = new VectorEmbeddingService()
+  ): Promise<MemoryStorage> {
+    const storage = new MemoryStorage(embeddingService, db);
+    await storage.load();
+    return storage;
+  }
+
+  /**
+   * Replace the entries and indexes with the stored memories. Memories stored without an embedding,
+   * or embedded by a provider with other dimensions, are embedded again and saved.
+   */
+  async load(): Promise<void> {
+    if (!this.db) throw new Error("MemoryStorage has no database to load from");
+
+    const rows = await loadMemories(this.db);
+    this.memories.clear();
+    this.indexes.clear();
+    rows.forEach((row) => this.embeddingService.observe(row.value));
+
+    for (const row of rows) {
+      const entry: MemoryEntry = {
+        id: `mem-${row.id}`,
+        userId: row.userId,
+        projectId: row.projectId ?? undefined,
+        memoryType: row.memoryType,
+        key: row.key,
+        value: row.value,
+        embedding: row.embedding ? parseEmbedding(row.embedding) : undefined,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt,
+        accessCount: row.accessCount ?? 0,
+        lastAccessed: row.lastAccessed ?? row.createdAt,
+      };
+
+      if (entry.embedding?.length !== this.embeddingService.dimensions) {
+        entry.embedding = await this.embeddingService.generateEmbedding(entry.value);
+        await updateMemoryMetadata(this.db, row.id, {
+          embedding: serializeEmbedding(entry.embedding),
+          updatedAt: entry.updatedAt,
+        });
+      }
+
+      this.memories.set(entry.id, entry);
+      this.index(entry);
+    }
+  }
+
   /**
    * Store a new memory entry
    */
@@ -105,8 +201,11 @@ export class MemoryStorage {
     value: string,
     projectId?: number
   ): Promise<MemoryEntry> {
-    const id = `mem-${this.nextId++}`;
+    this.embeddingService.observe(value);
     const embedding = await this.embeddingService.generateEmbedding(value);
+    const id = this.db
+      ? `mem-${await storeMemory(this.db, userId, memoryType, key, value, projectId, serializeEmbedding(embedding))}`
+      : `mem-${this.nextId++}`;
 
     const entry: MemoryEntry = {
       id,
@@ -123,6 +222,7 @@ export class MemoryStorage {
     };
 
     this.memories.set(id, entry);
+    this.index(entry);
     return entry;
   }
 
@@ -131,30 +231,15 @@ export class MemoryStorage {
    */
   async retrieve(query: MemoryQuery): Promise<MemoryRetrievalResult> {
     const startTime = Date.now();
-    const results: MemoryEntry[] = [];
+    const limit = query.limit || 10;
+    const matches = (entry: MemoryEntry) =>
+      entry.userId === query.userId &&
+      (!query.projectId || entry.projectId === query.projectId) &&
+      (!query.memoryType || entry.memoryType === query.memoryType);
 
-    // Filter by user and project
-    for (const [, entry] of this.memories) {
-      if (entry.userId !== query.userId) continue;
-      if (query.projectId && entry.projectId !== query.projectId) continue;
-      if (query.memoryType && entry.memoryType !== query.memoryType) continue;
-
-      // If query text provided, calculate similarity
-      if (query.query && entry.embedding) {
-        const queryEmbedding = await this.embeddingService.generateEmbedding(query.query);
-        const similarity = this.embeddingService.calculateSimilarity(
-          entry.embedding,
-          queryEmbedding
-        );
-
-        if (similarity > 0.3) {
-          entry.relevanceScore = similarity;
-          results.push(entry);
-        }
-      } else {
-        results.push(entry);
-      }
-    }
+    const results = query.query
+      ? await this.search(query.query, query, limit, matches)
+      : Array.from(this.memories.values()).filter(matches);
 
     // Sort by relevance score or access count
     results.sort((a, b) => {
@@ -164,7 +249,6 @@ export class MemoryStorage {
     });
 
     // Limit results
-    const limit = query.limit || 10;
     const limited = results.slice(0, limit);
 
     // Update access count
@@ -172,6 +256,19 @@ export class MemoryStorage {
       entry.accessCount++;
       entry.lastAccessed = new Date();
     }
+    if (this.db) {
+      // Bookkeeping only: the search does not wait for it, and a failed write loses one access count
+      const db = this.db;
+      Promise.all(
+        limited.map((entry) =>
+          updateMemoryMetadata(db, rowId(entry.id), {
+            accessCount: entry.accessCount,
+            lastAccessed: entry.lastAccessed,
+            updatedAt: entry.updatedAt,
+          })
+        )
+      ).catch((error) => console.error("Failed to record memory access:", error));
+    }
 
     const executionTime = Date.now() - startTime;
 
@@ -182,6 +279,58 @@ export class MemoryStorage {
     };
   }
 
+  /**
+   * The nearest memories to the text in each of the user's partitions the query covers, above the relevance threshold
+   */
+  private async search(
+    text: string,
+    query: MemoryQuery,
+    limit: number,
+    matches: (entry: MemoryEntry) => boolean
+  ): Promise<MemoryEntry[]> {
+    const embedding = await this.embeddingService.generateEmbedding(text);
+    const partitions = this.indexes.get(query.userId);
+    if (!partitions) return [];
+
+    const indexes = query.projectId ? [partitions.get(query.projectId)] : Array.from(partitions.values());
+    const results: MemoryEntry[] = [];
+    for (const index of indexes) {
+      if (!index) continue;
+      for (const match of index.search(embedding, limit, (id) => matches(this.memories.get(id)!))) {
+        if (match.score <= RELEVANCE_THRESHOLD) continue;
+        const entry = this.memories.get(match.id)!;
+        entry.relevanceScore = match.score;
+        results.push(entry);
+      }
+    }
+    return results;
+  }
+
+  private index(entry: MemoryEntry): void {
+    if (!entry.embedding) return;
+
+    let partitions = this.indexes.get(entry.userId);
+    if (!partitions) {
+      partitions = new Map();
+      this.indexes.set(entry.userId, partitions);
+    }
+    let index = partitions.get(entry.projectId);
+    if (!index) {
+      index = new HnswIndex();
+      partitions.set(entry.projectId, index);
+    }
+    index.add(entry.id, entry.embedding);
+  }
+
+  private unindex(entry: MemoryEntry): void {
+    const partitions = this.indexes.get(entry.userId);
+    const index = partitions?.get(entry.projectId);
+    if (!index?.remove(entry.id) || index.size > 0) return;
+
+    partitions!.delete(entry.projectId);
+    if (partitions!.size === 0) this.indexes.delete(entry.userId);
+  }
+
   /**
    * Update an existing memory entry
    */
@@ -199,10 +348,30 @@ export class MemoryStorage {
 
     // Regenerate embedding if value changed
     if (updates.value) {
+      this.embeddingService.unobserve(entry.value);
+      this.embeddingService.observe(updates.value);
       updated.embedding = await this.embeddingService.generateEmbedding(updates.value);
     }
 
+    if (this.db) {
+      await updateMemory(this.db, rowId(id), userId, {
+        projectId: updated.projectId,
+        memoryType: updated.memoryType,
+        key: updated.key,
+        value: updated.value,
+        embedding: updated.embedding && serializeEmbedding(updated.embedding),
+      });
+    }
+
     this.memories.set(id, updated);
+    if (
+      updated.embedding !== entry.embedding ||
+      updated.userId !== entry.userId ||
+      updated.projectId !== entry.projectId
+    ) {
+      this.unindex(entry);
+      this.index(updated);
+    }
     return updated;
   }
 
@@ -215,6 +384,10 @@ export class MemoryStorage {
       throw new Error("Memory not found or unauthorized");
     }
 
+    if (this.db) await deleteMemory(this.db, rowId(id), userId);
+
+    this.embeddingService.unobserve(entry.value);
+    this.unindex(entry);
     return this.memories.delete(id);
   }
 
@@ -296,7 +469,7 @@ export class MemoryContext {
     success: boolean
   ): Promise<void> {
     const memoryType = success ? "solution" : "error";
-    const key = `${taskDescription}-${Date.now()}`;
+    const key = `${taskDescription.slice(0, LEARNED_KEY_LENGTH)}-${randomUUID()}`;
 
     await this.storage.store(userId, memoryType, key, result, projectId);
   }
@@ -309,4 +482,12 @@ export class MemoryContext {
   }
 }
 
-export { MemoryStorage, VectorEmbeddingService, MemoryContext };
+/**
+ * Render memories for an agent prompt, one per line tagged with its type
+ */
+export function formatMemories(entries: MemoryEntry[]): string {
+  return (
+    "Relevant memories from earlier work in this project:\n" +
+    entries.map((entry) => `- [${entry.memoryType}] ${entry.value}`).join("\n")
+  );
+}
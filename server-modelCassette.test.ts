@@ -0,0 +1,118 @@
+/**
+ * AIDE Platform - Model Cassette Tests
+ * Records an orchestration session and replays it without the original providers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AgentOrchestrator } from "./server-agentOrchestrator";
+import { LocalStubProvider, createProviderFromEnv } from "./server-llmProviders";
+import { CassetteMismatchError, CassettePlayer, CassetteRecorder, loadCassette } from "./server-modelCassette";
+
+const CODE = `export function add(a: number, b: number): number {
+  try {
+    return a + b;
+  } catch (error) {
+    throw error;
+  }
+}`;
+
+const PLAN_JSON = JSON.stringify({
+  summary: "Add numbers",
+  steps: [{ id: "add", description: "Add function", files: ["src/add.ts"], acceptanceCriteria: ["adds"] }],
+});
+
+const EXECUTOR = {
+  command: ["node", "-e", "require('fs').accessSync('src/add.ts')"],
+  requireNetworkIsolation: false,
+};
+
+/**
+ * Test Suite: Model Cassettes
+ */
+describe("Model Cassettes", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "aide-cassette-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function recordSession(path: string) {
+    const recorder = new CassetteRecorder(path);
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      providers: {
+        planner: recorder.wrap("planner", new LocalStubProvider({ responder: () => PLAN_JSON })),
+        coder: recorder.wrap(
+          "coder",
+          new LocalStubProvider({
+            responder: () =>
+              JSON.stringify({ summary: "Add", changes: [{ op: "create", path: "src/add.ts", content: CODE }] }),
+          })
+        ),
+        verifier: recorder.wrap("verifier", new LocalStubProvider({ responder: () => "LGTM" })),
+      },
+    });
+    return orchestrator.run("Add numbers", 1);
+  }
+
+  it("should replay a recorded run without the original providers", async () => {
+    const path = join(dir, "add.json");
+    const recorded = await recordSession(path);
+
+    const cassette = loadCassette(path);
+    expect(cassette.interactions.map((i) => i.role)).toEqual(["planner", "coder", "verifier"]);
+
+    const player = CassettePlayer.fromFile(path);
+    const replayed = await new AgentOrchestrator({
+      executor: EXECUTOR,
+      providers: {
+        planner: player.provider("planner"),
+        coder: player.provider("coder"),
+        verifier: player.provider("verifier"),
+      },
+    }).run("Add numbers", 1);
+
+    expect(replayed.status).toBe("completed");
+    const modelTasks = (tasks: typeof recorded.tasks) =>
+      tasks.filter((t) => t.agentType !== "executor").map((t) => [t.agentType, t.status, t.result]);
+    expect(replayed.tasks.map((t) => t.agentType)).toEqual(["planner", "coder", "verifier", "executor"]);
+    expect(modelTasks(replayed.tasks)).toEqual(modelTasks(recorded.tasks));
+    expect(player.unused()).toEqual([]);
+  });
+
+  it("should fail loudly on requests that were not recorded", async () => {
+    const path = join(dir, "add.json");
+    await recordSession(path);
+    const planner = CassettePlayer.fromFile(path).provider("planner");
+
+    await expect(planner.complete([{ role: "user", content: "Build a todo app" }])).rejects.toThrow(
+      CassetteMismatchError
+    );
+    await expect(planner.complete([{ role: "user", content: "Build a todo app" }])).rejects.toThrow(
+      "No recorded planner response for request"
+    );
+  });
+
+  it("should record and replay agents configured from the environment", async () => {
+    const path = join(dir, "env.json");
+    const messages = [{ role: "user" as const, content: "hello" }];
+
+    const recording = createProviderFromEnv("coder", { AIDE_CASSETTE: path, AIDE_CASSETTE_MODE: "record" });
+    const live = await recording.complete(messages);
+
+    const replaying = createProviderFromEnv("coder", {
+      AIDE_CASSETTE: path,
+      AIDE_CASSETTE_MODE: "replay",
+      AIDE_CODER_PROVIDER: "gemini",
+    });
+    expect(await replaying.complete(messages)).toEqual(live);
+    await expect(replaying.complete(messages)).rejects.toThrow(CassetteMismatchError);
+  });
+});
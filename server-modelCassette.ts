@@ -0,0 +1,280 @@
+/**
+ * Model Cassettes - Record and replay agent model calls
+ * A recorded run's requests and responses are saved to a cassette file and served back by request fingerprint,
+ * so real orchestration sessions can be replayed as deterministic, offline tests.
+ */
+
+import { createHash } from "crypto";
+import { readFileSync, writeFileSync } from "fs";
+import type {
+  AgentModelRole,
+  ChatMessage,
+  CompletionOptions,
+  CompletionResult,
+  LLMProvider,
+  TokenUsage,
+} from "./server-llmProviders";
+
+export interface CassetteRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * One model call; failed calls keep the error so replays fail the same way
+ */
+export interface CassetteInteraction {
+  role: AgentModelRole;
+  fingerprint: string;
+  request: CassetteRequest;
+  response?: CompletionResult;
+  error?: string;
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export type CassetteMode = "record" | "replay";
+
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteMismatchError";
+  }
+}
+
+/**
+ * Identifies a request by the agent, the messages and the options that change the answer.
+ * The model is left out so a cassette recorded against one model can be replayed under another name.
+ */
+export function requestFingerprint(
+  role: AgentModelRole,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        role,
+        messages: messages.map((m) => [m.role, m.content]),
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+      })
+    )
+    .digest("hex");
+}
+
+export function emptyCassette(): Cassette {
+  return { version: 1, interactions: [] };
+}
+
+export function loadCassette(path: string): Cassette {
+  const cassette = JSON.parse(readFileSync(path, "utf8"));
+  if (cassette?.version !== 1 || !Array.isArray(cassette.interactions)) {
+    throw new Error(`Invalid cassette: ${path}`);
+  }
+  return cassette;
+}
+
+export function saveCassette(path: string, cassette: Cassette): void {
+  writeFileSync(path, JSON.stringify(cassette, null, 2) + "\n");
+}
+
+/**
+ * Passes calls through to the real provider and records each request with its response
+ */
+class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly temperature: number;
+  readonly maxTokens: number;
+
+  constructor(
+    private inner: LLMProvider,
+    private role: AgentModelRole,
+    private record: (interaction: CassetteInteraction) => void
+  ) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.temperature = inner.temperature;
+    this.maxTokens = inner.maxTokens;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    try {
+      const response = await this.inner.complete(messages, options);
+      this.save(messages, options, { response });
+      return response;
+    } catch (error) {
+      this.save(messages, options, { error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    let content = "";
+    let usage: TokenUsage | undefined;
+    const onUsage = (reported: TokenUsage) => {
+      usage = reported;
+      options.onUsage?.(reported);
+    };
+    try {
+      for await (const token of this.inner.stream(messages, { ...options, onUsage })) {
+        content += token;
+        yield token;
+      }
+    } catch (error) {
+      this.save(messages, options, { error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+    this.save(messages, options, { response: { content, model: this.inner.model, usage } });
+  }
+
+  private save(
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    outcome: Pick<CassetteInteraction, "response" | "error">
+  ): void {
+    this.record({
+      role: this.role,
+      fingerprint: requestFingerprint(this.role, messages, options),
+      request: {
+        model: this.inner.model,
+        messages,
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+      },
+      ...outcome,
+    });
+  }
+}
+
+/**
+ * Serves recorded responses; a request that was not recorded fails with CassetteMismatchError
+ */
+class ReplayProvider implements LLMProvider {
+  readonly name = "cassette";
+  readonly model: string;
+  readonly temperature = 0;
+  readonly maxTokens: number;
+
+  constructor(
+    private role: AgentModelRole,
+    private take: (fingerprint: string) => CassetteInteraction | undefined,
+    recorded?: CassetteInteraction
+  ) {
+    this.model = recorded?.request.model || `${role}-cassette`;
+    this.maxTokens = recorded?.request.maxTokens ?? 4096;
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<CompletionResult> {
+    if (options.signal?.aborted) throw new Error("Request aborted");
+
+    const fingerprint = requestFingerprint(this.role, messages, options);
+    const interaction = this.take(fingerprint);
+    if (!interaction) {
+      const last = messages[messages.length - 1]?.content || "";
+      throw new CassetteMismatchError(
+        `No recorded ${this.role} response for request ${fingerprint.slice(0, 12)}: ` +
+          `"${last.length > 80 ? `${last.slice(0, 80)}...` : last}"`
+      );
+    }
+    if (interaction.error !== undefined) throw new Error(interaction.error);
+    return interaction.response!;
+  }
+
+  async *stream(messages: ChatMessage[], options: CompletionOptions = {}): AsyncIterable<string> {
+    const { content, usage } = await this.complete(messages, options);
+    for (const token of content.match(/\s*\S+\s*/g) || []) {
+      yield token;
+    }
+    if (usage) options.onUsage?.(usage);
+  }
+}
+
+/**
+ * Collects the model calls of every agent it wraps into one cassette.
+ * With a path the cassette file is rewritten after each call, so an interrupted session keeps what it recorded.
+ */
+export class CassetteRecorder {
+  readonly cassette = emptyCassette();
+
+  constructor(private path?: string) {}
+
+  wrap(role: AgentModelRole, provider: LLMProvider): LLMProvider {
+    return new RecordingProvider(provider, role, (interaction) => {
+      this.cassette.interactions.push(interaction);
+      if (this.path) saveCassette(this.path, this.cassette);
+    });
+  }
+}
+
+/**
+ * Replays a cassette. Identical requests are answered in the order they were recorded, each response once.
+ */
+export class CassettePlayer {
+  private used = new Set<number>();
+
+  constructor(readonly cassette: Cassette) {}
+
+  static fromFile(path: string): CassettePlayer {
+    return new CassettePlayer(loadCassette(path));
+  }
+
+  provider(role: AgentModelRole): LLMProvider {
+    return new ReplayProvider(
+      role,
+      (fingerprint) => {
+        const index = this.cassette.interactions.findIndex(
+          (interaction, i) => !this.used.has(i) && interaction.fingerprint === fingerprint
+        );
+        if (index === -1) return undefined;
+        this.used.add(index);
+        return this.cassette.interactions[index];
+      },
+      this.cassette.interactions.find((interaction) => interaction.role === role)
+    );
+  }
+
+  /**
+   * Recorded calls the replay has not made yet
+   */
+  unused(): CassetteInteraction[] {
+    return this.cassette.interactions.filter((_, i) => !this.used.has(i));
+  }
+}
+
+const sessions = new Map<string, CassetteRecorder | CassettePlayer>();
+
+/**
+ * Route an agent's model calls through the cassette named by AIDE_CASSETTE.
+ * AIDE_CASSETTE_MODE=record captures a real session; replay (the default) never creates the real provider.
+ * Agents configured in the same process share one cassette per path.
+ */
+export function cassetteProviderFromEnv(
+  role: AgentModelRole,
+  create: () => LLMProvider,
+  env: Record<string, string | undefined> = process.env
+): LLMProvider {
+  const path = env.AIDE_CASSETTE;
+  if (!path) return create();
+
+  const mode = env.AIDE_CASSETTE_MODE || "replay";
+  const session = sessions.get(path);
+
+  if (mode === "record") {
+    const recorder = session instanceof CassetteRecorder ? session : new CassetteRecorder(path);
+    sessions.set(path, recorder);
+    return recorder.wrap(role, create());
+  }
+  if (mode === "replay") {
+    const player = session instanceof CassettePlayer ? session : CassettePlayer.fromFile(path);
+    sessions.set(path, player);
+    return player.provider(role);
+  }
+  throw new Error(`Unknown AIDE_CASSETTE_MODE: ${mode}`);
+}
@@ -0,0 +1,69 @@
+/**
+ * AIDE Platform - Pipeline Tests
+ * Covers the checks a pipeline definition has to pass before it is saved
+ */
+
+import { describe, it, expect } from "vitest";
+import { defaultPipeline, parsePipeline, PipelineSchema } from "./server-pipeline";
+
+const issues = (raw: unknown) => {
+  const parsed = PipelineSchema.safeParse(raw);
+  return parsed.success ? [] : parsed.error.issues.map((i) => i.message);
+};
+
+/**
+ * Test Suite: Pipelines
+ */
+describe("Pipelines", () => {
+  it("should accept the default pipeline and fill in stage defaults", () => {
+    expect(issues(defaultPipeline())).toEqual([]);
+
+    const pipeline = parsePipeline({ stages: [{ id: "code", agent: "coder" }, { id: "verify", agent: "verifier" }] });
+    expect(pipeline?.name).toBe("custom");
+    expect(pipeline?.stages[1].maxFailures).toBe(3);
+    expect(parsePipeline(null)).toBeNull();
+  });
+
+  it("should reject duplicate stages and unknown transitions", () => {
+    expect(
+      issues({
+        stages: [
+          { id: "code", agent: "coder", onSuccess: "check" },
+          { id: "code", agent: "verifier" },
+        ],
+      })
+    ).toEqual(["Duplicate stage id: code", "Stage code transitions to unknown stage check"]);
+  });
+
+  it("should reject unreachable stages and success loops", () => {
+    expect(
+      issues({
+        stages: [
+          { id: "code", agent: "coder", onSuccess: "$end" },
+          { id: "verify", agent: "verifier" },
+        ],
+      })
+    ).toEqual(["Stage verify is unreachable"]);
+
+    expect(
+      issues({
+        stages: [
+          { id: "code", agent: "coder", onSuccess: "verify" },
+          { id: "verify", agent: "verifier", onSuccess: "code" },
+        ],
+      })
+    ).toEqual(["Stages loop on success without a limit: code -> verify -> code"]);
+  });
+
+  it("should require a coder for verifier, tester and reviewer stages", () => {
+    expect(() => parsePipeline(JSON.stringify({ stages: [{ id: "verify", agent: "verifier" }] }))).toThrow(
+      "Invalid pipeline: Verifier stages need a coder stage to produce changesets"
+    );
+    expect(() => parsePipeline(JSON.stringify({ stages: [{ id: "test", agent: "tester" }] }))).toThrow(
+      "Invalid pipeline: Tester stages need a coder stage to produce changesets"
+    );
+    expect(() => parsePipeline(JSON.stringify({ stages: [{ id: "review", agent: "reviewer" }] }))).toThrow(
+      "Invalid pipeline: Reviewer stages need a coder stage to produce changesets"
+    );
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Agent Pipelines - Declarative stage graphs run by the orchestrator
+ * Each stage runs one agent and names the stage to go to on success and on failure.
+ * Coder, tester, reviewer and verifier stages work on one plan step at a time: when the flow leaves them on success,
+ * the step's changeset is applied and the next plan step starts again at the stage where the flow entered.
+ */
+
+import { z } from "zod";
+
+export const PIPELINE_END = "$end";
+export const PIPELINE_FAIL = "$fail";
+
+const STAGE_ID = /^[A-Za-z0-9_-]+$/;
+
+export const PipelineStageSchema = z.object({
+  id: z.string().regex(STAGE_ID, "Stage ids may only contain letters, digits, '-' and '_'"),
+  agent: z.enum(["planner", "coder", "verifier", "tester", "reviewer", "executor"]),
+  /**
+   * Stage id, "$end" or "$fail"; defaults to the next stage in the list ("$end" after the last)
+   */
+  onSuccess: z.string().optional(),
+  /**
+   * Stage id, "$end" or "$fail"; defaults to "$fail"
+   */
+  onFailure: z.string().optional(),
+  /**
+   * Loop limit: how often this stage may fail per plan step before the run fails
+   */
+  maxFailures: z.number().int().min(1).max(20).default(3),
+});
+
+export const PipelineSchema = z
+  .object({
+    name: z.string().min(1).default("custom"),
+    stages: z.array(PipelineStageSchema).min(1, "Pipeline must contain at least one stage"),
+  })
+  .superRefine((pipeline, ctx) => {
+    const ids = new Set<string>();
+    pipeline.stages.forEach((stage) => {
+      if (ids.has(stage.id)) {
+        ctx.addIssue({ code: "custom", message: `Duplicate stage id: ${stage.id}` });
+      }
+      ids.add(stage.id);
+    });
+
+    const isTarget = (target: string) => target === PIPELINE_END || target === PIPELINE_FAIL || ids.has(target);
+    let unknownTargets = false;
+    pipeline.stages.forEach((stage) => {
+      [stage.onSuccess, stage.onFailure].forEach((target) => {
+        if (target !== undefined && !isTarget(target)) {
+          unknownTargets = true;
+          ctx.addIssue({ code: "custom", message: `Stage ${stage.id} transitions to unknown stage ${target}` });
+        }
+      });
+    });
+
+    // These stages check or run the changesets a coder stage produces
+    const hasCoder = pipeline.stages.some((s) => s.agent === "coder");
+    for (const agent of ["verifier", "tester", "reviewer"]) {
+      if (!hasCoder && pipeline.stages.some((s) => s.agent === agent)) {
+        const label = agent[0].toUpperCase() + agent.slice(1);
+        ctx.addIssue({ code: "custom", message: `${label} stages need a coder stage to produce changesets` });
+      }
+    }
+
+    // The graph checks below only make sense once every transition resolves
+    if (unknownTargets || ids.size !== pipeline.stages.length) return;
+
+    const reachable = reachableStages(pipeline);
+    pipeline.stages
+      .filter((stage) => !reachable.has(stage.id))
+      .forEach((stage) => ctx.addIssue({ code: "custom", message: `Stage ${stage.id} is unreachable` }));
+
+    const cycle = findSuccessCycle(pipeline);
+    if (cycle) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Stages loop on success without a limit: ${cycle.join(" -> ")}`,
+      });
+    }
+  });
+
+export type PipelineStage = z.infer<typeof PipelineStageSchema>;
+export type Pipeline = z.infer<typeof PipelineSchema>;
+
+/**
+ * The built-in sequence: plan, then code and verify each step (retrying the coder), then execute
+ */
+export function defaultPipeline(maxRepairAttempts = 3): Pipeline {
+  return {
+    name: "default",
+    stages: [
+      { id: "plan", agent: "planner", onSuccess: "code", maxFailures: 1 },
+      { id: "code", agent: "coder", onSuccess: "verify", maxFailures: 1 },
+      { id: "verify", agent: "verifier", onSuccess: "execute", onFailure: "code", maxFailures: maxRepairAttempts },
+      { id: "execute", agent: "executor", maxFailures: 1 },
+    ],
+  };
+}
+
+/**
+ * Read a stored pipeline; projects without one use the default pipeline
+ */
+export function parsePipeline(raw: unknown): Pipeline | null {
+  if (raw === null || raw === undefined) return null;
+
+  const parsed = PipelineSchema.safeParse(typeof raw === "string" ? JSON.parse(raw) : raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid pipeline: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+export function successTarget(pipeline: Pipeline, stage: PipelineStage): string {
+  if (stage.onSuccess) return stage.onSuccess;
+  const index = pipeline.stages.findIndex((s) => s.id === stage.id);
+  return pipeline.stages[index + 1]?.id ?? PIPELINE_END;
+}
+
+export function failureTarget(stage: PipelineStage): string {
+  return stage.onFailure ?? PIPELINE_FAIL;
+}
+
+/**
+ * Coder, tester, reviewer and verifier stages are scoped to the current plan step
+ */
+export function isStepStage(stage: PipelineStage | undefined): boolean {
+  return ["coder", "tester", "reviewer", "verifier"].includes(stage?.agent ?? "");
+}
+
+function reachableStages(pipeline: Pipeline): Set<string> {
+  const byId = new Map(pipeline.stages.map((stage) => [stage.id, stage]));
+  const seen = new Set<string>();
+  const pending = [pipeline.stages[0].id];
+
+  while (pending.length) {
+    const id = pending.pop()!;
+    const stage = byId.get(id);
+    if (!stage || seen.has(id)) continue;
+    seen.add(id);
+    pending.push(successTarget(pipeline, stage), failureTarget(stage));
+  }
+
+  return seen;
+}
+
+/**
+ * A cycle made only of success transitions would never end; failure loops are bounded by maxFailures
+ */
+function findSuccessCycle(pipeline: Pipeline): string[] | null {
+  const byId = new Map(pipeline.stages.map((stage) => [stage.id, stage]));
+
+  for (const start of pipeline.stages) {
+    const path = [start.id];
+    let current = successTarget(pipeline, start);
+
+    while (byId.has(current)) {
+      if (current === start.id) return [...path, current];
+      if (path.includes(current)) break;
+      path.push(current);
+      current = successTarget(pipeline, byId.get(current)!);
+    }
+  }
+
+  return null;
+}
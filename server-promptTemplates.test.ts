@@ -0,0 +1,95 @@
+/**
+ * AIDE Platform - Prompt Template Tests
+ * Covers template versions, project overrides and the versions recorded on agent tasks
+ */
+
+import { describe, it, expect } from "vitest";
+import { AgentOrchestrator } from "./server-agentOrchestrator";
+import { LocalStubProvider, type ChatMessage } from "./server-llmProviders";
+import { PromptRegistry, renderTemplate } from "./server-promptTemplates";
+
+const PLAN_JSON = JSON.stringify({
+  summary: "Add numbers",
+  steps: [{ id: "add", description: "Add function", files: ["src/add.ts"], acceptanceCriteria: ["adds"] }],
+});
+
+/**
+ * Test Suite: Prompt Templates
+ */
+describe("Prompt Templates", () => {
+  it("should interpolate variables and reject missing ones", () => {
+    const template = { id: "greeting", version: 1, template: "Hello {{ name }}, step {{step}}" };
+
+    expect(renderTemplate(template, { name: "Ada", step: 2 })).toBe("Hello Ada, step 2");
+    expect(() => renderTemplate(template, { name: "Ada" })).toThrow(
+      "Prompt template greeting@1 has no value for {{step}}"
+    );
+  });
+
+  it("should render the latest version unless a project pins or replaces it", () => {
+    const registry = new PromptRegistry();
+    registry.register({ id: "planner.revision", version: 2, template: "Revise the plan: {{feedback}}" });
+
+    expect(registry.forProject().render("planner.revision", { feedback: "smaller" })).toEqual({
+      text: "Revise the plan: smaller",
+      ref: { id: "planner.revision", version: 2, source: "builtin" },
+    });
+    expect(
+      registry.forProject({ "planner.revision": { version: 1 } }).render("planner.revision", { feedback: "x" }).ref
+    ).toEqual({ id: "planner.revision", version: 1, source: "builtin" });
+    expect(
+      registry
+        .forProject({ "planner.revision": { version: 7, template: "Nope: {{feedback}}" } })
+        .render("planner.revision", { feedback: "x" })
+    ).toEqual({ text: "Nope: x", ref: { id: "planner.revision", version: 7, source: "project" } });
+
+    expect(() => registry.validate({ "planner.revision": { version: 3 } })).toThrow(
+      "Prompt template planner.revision has no version 3"
+    );
+    expect(() => registry.validate({ "planner.summary": { version: 1 } })).toThrow("Unknown prompt template");
+    expect(() => registry.validate({ "coder.repair": { version: 2, template: "{{header}}{{diff}}" } })).toThrow(
+      "Prompt override coder.repair uses unknown variables: {{diff}}"
+    );
+  });
+
+  it("should record the template versions each agent task was prompted with", async () => {
+    let plannerSystem = "";
+    const orchestrator = new AgentOrchestrator({
+      executor: { command: ["node", "-e", ""], requireNetworkIsolation: false },
+      providers: {
+        planner: new LocalStubProvider({
+          responder: (messages: ChatMessage[]) => {
+            plannerSystem = messages[0].content;
+            return PLAN_JSON;
+          },
+        }),
+        coder: new LocalStubProvider({
+          responder: () =>
+            JSON.stringify({
+              summary: "Add",
+              changes: [
+                {
+                  op: "create",
+                  path: "src/add.ts",
+                  content: 'export function one(): number {\n  if (!Number.isFinite(1)) throw new Error("NaN");\n  return 1;\n}',
+                },
+              ],
+            }),
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1, {
+      prompts: { "planner.system": { version: 2, template: "Plan it as JSON." } },
+    });
+
+    expect(plannerSystem).toBe("Plan it as JSON.");
+    expect(tasks.map((t) => t.prompts?.map((p) => `${p.id}@${p.version}:${p.source}`))).toEqual([
+      ["planner.system@2:project", "agent.tools@1:builtin"],
+      ["coder.system@1:builtin", "agent.tools@1:builtin", "coder.plan@1:builtin", "coder.step@1:builtin"],
+      ["verifier.review@1:builtin", "agent.tools@1:builtin"],
+      undefined,
+    ]);
+  });
+});
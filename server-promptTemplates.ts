@@ -0,0 +1,252 @@
+/**
+ * Prompt Templates - Named, versioned prompts for the agents
+ * Agents render their prompts from the registry, so every task records which template version produced it.
+ * Projects can pin an earlier version or replace a template with their own text.
+ */
+
+import { z } from "zod";
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  /**
+   * Text with {{variable}} placeholders
+   */
+  template: string;
+}
+
+/**
+ * The template version a prompt was rendered from; source is "project" for a project's own text
+ */
+export interface PromptRef {
+  id: string;
+  version: number;
+  source: "builtin" | "project";
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+/**
+ * A project's override of one template: version alone pins a registered version,
+ * version with a template is the project's own text under its own version number
+ */
+export const PromptOverrideSchema = z.object({
+  version: z.number().int().positive(),
+  template: z.string().min(1).optional(),
+});
+
+export const PromptOverridesSchema = z.record(z.string(), PromptOverrideSchema);
+
+export type PromptOverrides = z.infer<typeof PromptOverridesSchema>;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * The templates the agents ship with. Never edit a published version; register the change as the next version.
+ */
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    id: "planner.system",
+    version: 1,
+    template:
+      "You are a senior software architect. Break the request into implementation steps and reply " +
+      'with JSON only: {"summary": string, "steps": [{"id": string, "description": string, ' +
+      '"files": string[], "dependsOn": string[], "acceptanceCriteria": string[]}]}. ' +
+      "dependsOn lists the ids of steps that must be completed first.",
+  },
+  {
+    id: "planner.revision",
+    version: 1,
+    template: "A reviewer rejected this plan:\n{{feedback}}\n\nReturn the complete revised plan.",
+  },
+  {
+    id: "coder.system",
+    version: 1,
+    template:
+      "You are an expert TypeScript engineer. Implement the request as production-quality, " +
+      "strictly typed TypeScript with exports and error handling. Reply with a JSON changeset only: " +
+      '{"summary": string, "changes": [{"op": "create", "path": string, "content": string} | ' +
+      '{"op": "modify", "path": string, "diff": string} | {"op": "delete", "path": string} | ' +
+      '{"op": "rename", "path": string, "newPath": string, "diff"?: string}]}. ' +
+      "Modifications are unified-diff hunks against the current file content.",
+  },
+  {
+    id: "coder.plan",
+    version: 1,
+    template: "{{request}}\n\nDevelopment plan:\n{{plan}}",
+  },
+  {
+    id: "coder.step",
+    version: 1,
+    template: "Implement only step [{{id}}]: {{description}}{{files}}{{criteria}}",
+  },
+  {
+    id: "coder.repair",
+    version: 1,
+    template: "{{header}}{{issues}}\n\nReturn the complete corrected changeset.",
+  },
+  {
+    id: "agent.tools",
+    version: 1,
+    template:
+      "You can inspect the project with these tools before answering:\n{{tools}}\n\n" +
+      'To call a tool, reply with only {"tool": string, "arguments": object} and wait for its result. ' +
+      "Give your final answer once you have what you need.",
+  },
+  {
+    id: "verifier.review",
+    version: 1,
+    template:
+      "You are a meticulous code reviewer. List every bug, type error or missing error handling " +
+      'in the code, one per line prefixed with "- ". Reply with "LGTM" if there are none.',
+  },
+  {
+    id: "tester.system",
+    version: 1,
+    template:
+      "You are a test engineer. Write automated tests for the changed code, at least one test case per " +
+      "acceptance criterion, using the project's existing test framework. Only create or modify test files " +
+      '(*.test.ts, *.spec.ts or files under __tests__/). Reply with a JSON changeset only: {"summary": string, ' +
+      '"changes": [{"op": "create", "path": string, "content": string} | {"op": "modify", "path": string, ' +
+      '"diff": string}]}.',
+  },
+  {
+    id: "tester.task",
+    version: 1,
+    template: "Write tests for: {{task}}\n\nAcceptance criteria:\n{{criteria}}\n\nChanged files:\n{{files}}",
+  },
+  {
+    id: "reviewer.system",
+    version: 1,
+    template:
+      "You are a senior engineer reviewing a teammate's change. Comment on bugs, unclear code, missing " +
+      "error handling and deviations from the surrounding code's conventions; do not comment on code that is fine. " +
+      'Reply with JSON only: {"summary": string, "comments": [{"path": string, "startLine": number, ' +
+      '"endLine": number, "severity": "error" | "warning" | "info", "message": string, "suggestion"?: string}]}. ' +
+      "Lines refer to the numbered changed files. Use error only for problems that must be fixed before merging.",
+  },
+  {
+    id: "reviewer.changes",
+    version: 1,
+    template: "Review this change: {{summary}}\n\nChanged files:\n{{files}}\n\nSurrounding code:\n{{context}}",
+  },
+];
+
+/**
+ * Replace every {{variable}}; a placeholder without a value is an error rather than an empty string
+ */
+export function renderTemplate(template: PromptTemplate, variables: PromptVariables = {}): string {
+  return template.template.replace(PLACEHOLDER, (_, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Prompt template ${template.id}@${template.version} has no value for {{${name}}}`);
+    }
+    return String(variables[name]);
+  });
+}
+
+function placeholders(text: string): string[] {
+  return [...text.matchAll(PLACEHOLDER)].map((match) => match[1]);
+}
+
+/**
+ * Read stored overrides; projects without any use the latest registered versions
+ */
+export function parsePromptOverrides(raw: unknown): PromptOverrides {
+  if (raw === null || raw === undefined) return {};
+
+  const parsed = PromptOverridesSchema.safeParse(typeof raw === "string" ? JSON.parse(raw) : raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid prompt overrides: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate[]>();
+
+  constructor(templates: PromptTemplate[] = BUILTIN_PROMPTS) {
+    templates.forEach((template) => this.register(template));
+  }
+
+  register(template: PromptTemplate): void {
+    const versions = this.templates.get(template.id) || [];
+    if (versions.some((v) => v.version === template.version)) {
+      throw new Error(`Prompt template ${template.id}@${template.version} is already registered`);
+    }
+    this.templates.set(template.id, [...versions, template].sort((a, b) => a.version - b.version));
+  }
+
+  /**
+   * A template at the given version, or its latest version
+   */
+  get(id: string, version?: number): PromptTemplate {
+    const versions = this.templates.get(id);
+    if (!versions) throw new Error(`Unknown prompt template: ${id}`);
+    if (version === undefined) return versions[versions.length - 1];
+
+    const template = versions.find((v) => v.version === version);
+    if (!template) throw new Error(`Prompt template ${id} has no version ${version}`);
+    return template;
+  }
+
+  /**
+   * Every registered version, grouped by template id
+   */
+  list(): PromptTemplate[] {
+    return [...this.templates.values()].flat();
+  }
+
+  /**
+   * Check a project's overrides: pinned versions must exist and replacement text may only use
+   * the variables the agents provide for that template
+   */
+  validate(overrides: PromptOverrides): void {
+    for (const [id, override] of Object.entries(overrides)) {
+      const versions = this.templates.get(id);
+      if (!versions) throw new Error(`Unknown prompt template: ${id}`);
+      if (!override.template) {
+        this.get(id, override.version);
+        continue;
+      }
+
+      const known = new Set(versions.flatMap((v) => placeholders(v.template)));
+      const unknown = placeholders(override.template).filter((name) => !known.has(name));
+      if (unknown.length) {
+        throw new Error(`Prompt override ${id} uses unknown variables: ${unknown.map((n) => `{{${n}}}`).join(", ")}`);
+      }
+    }
+  }
+
+  /**
+   * The prompts a project's agents render, with its overrides applied
+   */
+  forProject(overrides: PromptOverrides = {}): PromptSet {
+    return new PromptSet(this, overrides);
+  }
+}
+
+/**
+ * Resolves templates for one project
+ */
+export class PromptSet {
+  constructor(
+    private registry: PromptRegistry,
+    private overrides: PromptOverrides = {}
+  ) {}
+
+  render(id: string, variables: PromptVariables = {}): { text: string; ref: PromptRef } {
+    const override = this.overrides[id];
+    if (override?.template) {
+      const template = { id, version: override.version, template: override.template };
+      return { text: renderTemplate(template, variables), ref: { id, version: override.version, source: "project" } };
+    }
+
+    const template = this.registry.get(id, override?.version);
+    return {
+      text: renderTemplate(template, variables),
+      ref: { id, version: template.version, source: "builtin" },
+    };
+  }
+}
+
+export const promptRegistry = new PromptRegistry();
@@ -0,0 +1,83 @@
+/**
+ * Run Control - Cancellation and pause/resume for orchestration runs
+ * Agents check in between steps; cancellation also aborts in-flight model calls and executor commands.
+ */
+
+export class RunCancelledError extends Error {
+  constructor(reason: string) {
+    super(`Run cancelled: ${reason}`);
+    this.name = "RunCancelledError";
+  }
+}
+
+export type RunState = "running" | "paused" | "cancelled";
+
+export class RunControl {
+  private controller = new AbortController();
+  private paused = false;
+  private waiters: (() => void)[] = [];
+
+  /**
+   * A parent signal (e.g. from an HTTP request) cancels the run when it aborts
+   */
+  constructor(parent?: AbortSignal) {
+    if (parent?.aborted) {
+      this.cancel(String(parent.reason ?? "Aborted"));
+    } else {
+      parent?.addEventListener("abort", () => this.cancel(String(parent.reason ?? "Aborted")), { once: true });
+    }
+  }
+
+  /**
+   * Aborts when the run is cancelled; pass it to model calls and sandboxed commands
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get state(): RunState {
+    if (this.controller.signal.aborted) return "cancelled";
+    return this.paused ? "paused" : "running";
+  }
+
+  cancel(reason = "Cancelled by user"): void {
+    if (this.controller.signal.aborted) return;
+    this.controller.abort(new RunCancelledError(reason));
+    this.wake();
+  }
+
+  /**
+   * Hold the run at its next checkpoint; the current agent step finishes first
+   */
+  pause(): void {
+    if (!this.controller.signal.aborted) this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.wake();
+  }
+
+  /**
+   * Called between agent steps: waits while paused and throws RunCancelledError once cancelled
+   */
+  async checkpoint(): Promise<void> {
+    this.throwIfCancelled();
+    while (this.paused && !this.controller.signal.aborted) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+    this.throwIfCancelled();
+  }
+
+  throwIfCancelled(): void {
+    if (!this.controller.signal.aborted) return;
+    const reason = this.controller.signal.reason;
+    throw reason instanceof RunCancelledError ? reason : new RunCancelledError(String(reason));
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
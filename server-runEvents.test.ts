@@ -0,0 +1,47 @@
+/**
+ * AIDE Platform - Run Events Tests
+ * Covers event filtering and the async iterator behind the progress subscription
+ */
+
+import { describe, it, expect } from "vitest";
+import { RunEventBus, type RunEvent } from "./server-runEvents";
+
+/**
+ * Test Suite: Run Events
+ */
+describe("Run Events", () => {
+  it("should only deliver events for the subscribed project and run", () => {
+    const bus = new RunEventBus();
+    const received: RunEvent[] = [];
+    const unsubscribe = bus.subscribe({ projectId: 1, runId: "a" }, (event) => received.push(event));
+
+    bus.publish({ type: "run:start", runId: "a", projectId: 1, prompt: "one" });
+    bus.publish({ type: "run:start", runId: "b", projectId: 1, prompt: "two" });
+    bus.publish({ type: "run:start", runId: "a", projectId: 2, prompt: "three" });
+    unsubscribe();
+    bus.publish({ type: "run:finish", runId: "a", projectId: 1, status: "completed" });
+
+    expect(received.map((e) => e.type === "run:start" && e.prompt)).toEqual(["one"]);
+  });
+
+  it("should iterate events until the signal aborts", async () => {
+    const bus = new RunEventBus();
+    const controller = new AbortController();
+    const received: string[] = [];
+
+    const reading = (async () => {
+      for await (const event of bus.events({ projectId: 1 }, controller.signal)) {
+        received.push(event.type);
+        if (event.type === "run:finish") controller.abort();
+      }
+    })();
+
+    await Promise.resolve();
+    bus.publish({ type: "run:start", runId: "a", projectId: 1, prompt: "go" });
+    bus.publish({ type: "agent:token", runId: "a", projectId: 1, taskId: "t", agentType: "planner", token: "hi" });
+    bus.publish({ type: "run:finish", runId: "a", projectId: 1, status: "completed" });
+    await reading;
+
+    expect(received).toEqual(["run:start", "agent:token", "run:finish"]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Run Events - Live progress of orchestration runs
+ * The orchestrator publishes events as agents start, stream tokens and finish;
+ * the agentTasks.onRunEvent subscription forwards them to clients over WebSocket.
+ */
+
+import { EventEmitter } from "events";
+import type { ApprovalGate } from "./server-approvals";
+import type { ModelUsage } from "./server-usage";
+
+export type RunAgentType = "planner" | "coder" | "verifier" | "tester" | "reviewer" | "executor";
+
+interface RunEventBase {
+  runId: string;
+  projectId: number;
+  at: Date;
+}
+
+export type RunEvent =
+  | (RunEventBase & { type: "run:start"; prompt: string })
+  | (RunEventBase & {
+      type: "agent:start";
+      taskId: string;
+      agentType: RunAgentType;
+      attempt: number;
+      planStepId?: string;
+    })
+  | (RunEventBase & { type: "agent:token"; taskId: string; agentType: RunAgentType; token: string })
+  | (RunEventBase & {
+      type: "agent:finish";
+      taskId: string;
+      agentType: RunAgentType;
+      status: "completed" | "failed" | "cancelled";
+      result?: string;
+      error?: string;
+      usage?: ModelUsage;
+    })
+  | (RunEventBase & { type: "approval:requested"; gate: ApprovalGate; planStepId?: string })
+  | (RunEventBase & { type: "approval:resolved"; gate: ApprovalGate; approved: boolean; feedback?: string })
+  | (RunEventBase & { type: "run:finish"; status: "completed" | "failed" | "cancelled"; error?: string });
+
+/**
+ * Distributive Omit, so each event variant keeps its own fields
+ */
+export type RunEventInput = RunEvent extends infer E ? (E extends RunEvent ? Omit<E, "at"> : never) : never;
+
+export interface RunEventFilter {
+  projectId: number;
+  runId?: string;
+}
+
+const EVENT = "run-event";
+// Events held per subscriber while it is not reading; older tokens are dropped first
+const MAX_BUFFERED_EVENTS = 1000;
+
+export class RunEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open subscription
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: RunEventInput): void {
+    this.emitter.emit(EVENT, { ...event, at: new Date() } as RunEvent);
+  }
+
+  /**
+   * Call listener for every event matching the filter; returns the unsubscribe function
+   */
+  subscribe(filter: RunEventFilter, listener: (event: RunEvent) => void): () => void {
+    const handler = (event: RunEvent) => {
+      if (matches(filter, event)) listener(event);
+    };
+    this.emitter.on(EVENT, handler);
+    return () => this.emitter.off(EVENT, handler);
+  }
+
+  /**
+   * Matching events as an async iterable, as returned by tRPC subscription procedures.
+   * Ends when the signal aborts.
+   */
+  async *events(filter: RunEventFilter, signal?: AbortSignal): AsyncGenerator<RunEvent> {
+    const buffer: RunEvent[] = [];
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    const unsubscribe = this.subscribe(filter, (event) => {
+      buffer.push(event);
+      if (buffer.length > MAX_BUFFERED_EVENTS) {
+        const token = buffer.findIndex((e) => e.type === "agent:token");
+        buffer.splice(token === -1 ? 0 : token, 1);
+      }
+      notify();
+    });
+    signal?.addEventListener("abort", notify, { once: true });
+
+    try {
+      while (!signal?.aborted) {
+        const event = buffer.shift();
+        if (event) {
+          yield event;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+        }
+      }
+    } finally {
+      unsubscribe();
+      signal?.removeEventListener("abort", notify);
+    }
+  }
+}
+
+function matches(filter: RunEventFilter, event: RunEvent): boolean {
+  return event.projectId === filter.projectId && (!filter.runId || event.runId === filter.runId);
+}
+
+/**
+ * Process-wide bus shared by queue workers and subscription procedures
+ */
+export const runEvents = new RunEventBus();
@@ -0,0 +1,100 @@
+/**
+ * AIDE Platform - Sandbox Tests
+ * Runs real child processes in isolated temporary workspaces
+ */
+
+import { describe, it, expect } from "vitest";
+import { runInSandbox, sandboxOptionsFromEnv, supportsNetworkIsolation } from "./server-sandbox";
+
+const node = (script: string) => ["node", "-e", script];
+
+/**
+ * Test Suite: Sandbox Execution
+ */
+describe("Sandbox Execution", () => {
+  const files = new Map([["src/message.txt", "hello from the project"]]);
+
+  it("should run the command against the project files", async () => {
+    const result = await runInSandbox(files, {
+      command: node("console.log(require('fs').readFileSync('src/message.txt', 'utf8'))"),
+      requireNetworkIsolation: false,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe("hello from the project");
+    expect(result.timedOut).toBe(false);
+  });
+
+  it("should read the executor limits from the environment and reject invalid ones", () => {
+    expect(sandboxOptionsFromEnv({ AIDE_EXECUTOR_TIMEOUT_MS: "5000", AIDE_EXECUTOR_MEMORY_MB: "512" })).toMatchObject({
+      timeoutMs: 5000,
+      memoryLimitMb: 512,
+    });
+    expect(sandboxOptionsFromEnv({})).toMatchObject({ timeoutMs: undefined, memoryLimitMb: undefined });
+    expect(() => sandboxOptionsFromEnv({ AIDE_EXECUTOR_TIMEOUT_MS: "2m" })).toThrow(
+      "AIDE_EXECUTOR_TIMEOUT_MS must be a positive integer, got 2m"
+    );
+    expect(() => sandboxOptionsFromEnv({ AIDE_EXECUTOR_MEMORY_MB: "0" })).toThrow(
+      "AIDE_EXECUTOR_MEMORY_MB must be a positive integer, got 0"
+    );
+  });
+
+  it("should report the real exit code and stderr", async () => {
+    const result = await runInSandbox(files, {
+      command: node("console.error('boom'); process.exit(3)"),
+      requireNetworkIsolation: false,
+    });
+
+    expect(result.exitCode).toBe(3);
+    expect(result.stderr.trim()).toBe("boom");
+  });
+
+  it("should kill commands that exceed the timeout", async () => {
+    const result = await runInSandbox(files, {
+      command: node("setInterval(() => {}, 1000)"),
+      timeoutMs: 300,
+      requireNetworkIsolation: false,
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).not.toBe(0);
+  });
+
+  it("should not leak server environment variables", async () => {
+    process.env.AIDE_SANDBOX_SECRET = "secret";
+
+    const result = await runInSandbox(files, {
+      command: node("console.log(process.env.AIDE_SANDBOX_SECRET || 'missing')"),
+      requireNetworkIsolation: false,
+    });
+
+    delete process.env.AIDE_SANDBOX_SECRET;
+    expect(result.stdout.trim()).toBe("missing");
+  });
+
+  it("should not start the command once the run was cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("Run cancelled"));
+
+    await expect(
+      runInSandbox(files, { command: node("0"), requireNetworkIsolation: false, signal: controller.signal })
+    ).rejects.toThrow("Run cancelled");
+  });
+
+  it("should reject files outside the workspace", async () => {
+    await expect(
+      runInSandbox(new Map([["../escape.txt", ""]]), { command: node("0"), requireNetworkIsolation: false })
+    ).rejects.toThrow("Invalid file path");
+  });
+
+  it.skipIf(!supportsNetworkIsolation())("should block network access", async () => {
+    const result = await runInSandbox(files, {
+      command: node(
+        "require('net').connect(80, '1.1.1.1').on('connect', () => process.exit(0)).on('error', () => process.exit(7))"
+      ),
+      timeoutMs: 10_000,
+    });
+
+    expect(result.exitCode).toBe(7);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Sandbox - Runs project commands in an isolated temporary workspace
+ * Enforces a wall-clock timeout, a memory limit, no network access and a minimal environment
+ */
+
+import { spawn, spawnSync } from "child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { normalizePath, type FileMap } from "./server-changeset";
+
+export interface SandboxOptions {
+  command: string[];
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  maxOutputBytes?: number;
+  /**
+   * Extra environment variables; nothing from the server environment is inherited except PATH
+   */
+  env?: Record<string, string>;
+  /**
+   * Refuse to run when the host cannot isolate the network (default true)
+   */
+  requireNetworkIsolation?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface SandboxResult {
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_MEMORY_LIMIT_MB = 1024;
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024;
+
+let isolationSupported: boolean | undefined;
+
+/**
+ * A positive whole number from the environment, or undefined when the variable is not set
+ */
+function positiveIntegerFromEnv(env: Record<string, string | undefined>, name: string): number | undefined {
+  if (!env[name]) return undefined;
+
+  const value = Number(env[name]);
+  if (!Number.isInteger(value) || value <= 0) throw new Error(`${name} must be a positive integer, got ${env[name]}`);
+  return value;
+}
+
+/**
+ * Executor command and limits from AIDE_EXECUTOR_* environment variables
+ */
+export function sandboxOptionsFromEnv(
+  env: Record<string, string | undefined> = process.env
+): Omit<SandboxOptions, "signal"> {
+  return {
+    command: (env.AIDE_EXECUTOR_COMMAND || "npm test --silent").split(/\s+/).filter(Boolean),
+    timeoutMs: positiveIntegerFromEnv(env, "AIDE_EXECUTOR_TIMEOUT_MS"),
+    memoryLimitMb: positiveIntegerFromEnv(env, "AIDE_EXECUTOR_MEMORY_MB"),
+    requireNetworkIsolation: env.AIDE_EXECUTOR_REQUIRE_ISOLATION !== "false",
+  };
+}
+
+/**
+ * Whether this host can run commands in an unprivileged user + network namespace
+ */
+export function supportsNetworkIsolation(): boolean {
+  if (isolationSupported === undefined) {
+    const probe = spawnSync("unshare", ["--user", "--map-root-user", "--net", "true"], {
+      stdio: "ignore",
+      timeout: 5000,
+    });
+    isolationSupported = probe.status === 0;
+  }
+  return isolationSupported;
+}
+
+/**
+ * Write the files into a fresh temporary directory, run the command there and clean up afterwards
+ */
+export async function runInSandbox(files: FileMap, options: SandboxOptions): Promise<SandboxResult> {
+  if (options.command.length === 0) throw new Error("Sandbox command is empty");
+
+  const isolated = supportsNetworkIsolation();
+  if (!isolated && options.requireNetworkIsolation !== false) {
+    throw new Error("Network isolation is not available on this host");
+  }
+
+  const workspace = await mkdtemp(join(tmpdir(), "aide-sandbox-"));
+
+  try {
+    for (const [path, content] of files) {
+      const target = join(workspace, normalizePath(path));
+      await mkdir(dirname(target), { recursive: true });
+      await writeFile(target, content);
+    }
+    await mkdir(join(workspace, ".tmp"), { recursive: true });
+
+    return await spawnLimited(workspace, isolated, options);
+  } finally {
+    await rm(workspace, { recursive: true, force: true });
+  }
+}
+
+function spawnLimited(workspace: string, isolated: boolean, options: SandboxOptions): Promise<SandboxResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const memoryLimitMb = options.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB;
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
+  const limited = ["prlimit", `--as=${memoryLimitMb * 1024 * 1024}`, "--", ...options.command];
+  const argv = isolated ? ["unshare", "--user", "--map-root-user", "--net", ...limited] : limited;
+
+  const env: Record<string, string> = {
+    PATH: process.env.PATH || "/usr/local/bin:/usr/bin:/bin",
+    HOME: workspace,
+    TMPDIR: join(workspace, ".tmp"),
+    LANG: "C.UTF-8",
+    CI: "1",
+    NODE_OPTIONS: `--max-old-space-size=${Math.max(64, Math.floor(memoryLimitMb * 0.75))}`,
+    ...options.env,
+  };
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) return reject(options.signal.reason);
+
+    const startedAt = Date.now();
+    const child = spawn(argv[0], argv.slice(1), {
+      cwd: workspace,
+      env,
+      detached: true, // own process group, so the whole tree can be killed
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    const stdout = new OutputBuffer(maxOutputBytes);
+    const stderr = new OutputBuffer(maxOutputBytes);
+    child.stdout.on("data", (chunk: Buffer) => stdout.append(chunk));
+    child.stderr.on("data", (chunk: Buffer) => stderr.append(chunk));
+
+    let timedOut = false;
+    const kill = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        // Process group already exited
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeoutMs);
+    options.signal?.addEventListener("abort", kill, { once: true });
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", kill);
+      reject(error);
+    });
+
+    child.on("close", (exitCode, signal) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", kill);
+      resolve({
+        exitCode,
+        signal,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        durationMs: Date.now() - startedAt,
+        timedOut,
+      });
+    });
+  });
+}
+
+/**
+ * Collects process output up to a byte limit
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  private truncated = false;
+
+  constructor(private limit: number) {}
+
+  append(chunk: Buffer): void {
+    const remaining = this.limit - this.size;
+    if (remaining <= 0) {
+      this.truncated = true;
+      return;
+    }
+    const kept = chunk.length > remaining ? chunk.subarray(0, remaining) : chunk;
+    this.truncated = this.truncated || kept.length < chunk.length;
+    this.chunks.push(kept);
+    this.size += kept.length;
+  }
+
+  toString(): string {
+    const text = Buffer.concat(this.chunks).toString("utf8");
+    return this.truncated ? `${text}\n[output truncated]` : text;
+  }
+}
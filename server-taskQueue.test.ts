@@ -0,0 +1,267 @@
+/**
+ * AIDE Platform - Task Queue Tests
+ * Exercises leasing, retries and dead-lettering against an in-memory store
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { AgentTaskQueue, FinalTaskError, type QueuedTask, type TaskQueueStore } from "./server-taskQueue";
+
+/**
+ * In-memory TaskQueueStore mirroring the SQL conditions used by the database store
+ */
+class MemoryTaskStore implements TaskQueueStore {
+  tasks: (QueuedTask & { result?: string; error?: string })[] = [];
+
+  add(task: Partial<QueuedTask> & { projectId: number }) {
+    const item: QueuedTask = {
+      id: this.tasks.length + 1,
+      agentType: "planner",
+      status: "pending",
+      prompt: "Build it",
+      retries: 0,
+      maxRetries: 3,
+      ...task,
+    };
+    this.tasks.push(item);
+    return item;
+  }
+
+  async listRunnable(now: Date, limit: number) {
+    return this.tasks
+      .filter(
+        (t) =>
+          !t.pausedAt &&
+          ((t.status === "pending" && (!t.runAfter || t.runAfter <= now)) ||
+            (t.status === "running" && !!t.leaseExpiresAt && t.leaseExpiresAt < now))
+      )
+      .slice(0, limit)
+      .map((t) => ({ ...t }));
+  }
+
+  async countLeased(projectId: number, now: Date) {
+    return this.tasks.filter(
+      (t) => t.projectId === projectId && t.status === "running" && !!t.leaseExpiresAt && t.leaseExpiresAt >= now
+    ).length;
+  }
+
+  async claim(task: QueuedTask, owner: string, leaseExpiresAt: Date) {
+    const stored = this.tasks.find((t) => t.id === task.id);
+    if (!stored || stored.status !== task.status || (stored.leaseOwner || null) !== (task.leaseOwner || null)) {
+      return false;
+    }
+    Object.assign(stored, { status: "running", leaseOwner: owner, leaseExpiresAt, retries: task.retries });
+    return true;
+  }
+
+  async renewLease(taskId: number, owner: string, leaseExpiresAt: Date) {
+    const stored = this.tasks.find((t) => t.id === taskId && t.leaseOwner === owner);
+    if (stored) stored.leaseExpiresAt = leaseExpiresAt;
+    return !!stored;
+  }
+
+  async readControl(taskId: number) {
+    const stored = this.tasks.find((t) => t.id === taskId);
+    return stored ? { status: stored.status, pausedAt: stored.pausedAt } : null;
+  }
+
+  async release(taskId: number, owner: string, updates: Partial<QueuedTask>) {
+    const stored = this.tasks.find((t) => t.id === taskId && t.leaseOwner === owner);
+    if (stored) Object.assign(stored, updates, { leaseOwner: null, leaseExpiresAt: null });
+  }
+}
+
+/**
+ * Test Suite: Task Queue
+ */
+describe("Task Queue", () => {
+  let store: MemoryTaskStore;
+  let clock: Date;
+  const now = () => clock;
+
+  beforeEach(() => {
+    store = new MemoryTaskStore();
+    clock = new Date("2024-01-01T00:00:00Z");
+  });
+
+  it("should claim pending tasks and record their result", async () => {
+    store.add({ projectId: 1 });
+    const queue = new AgentTaskQueue(store, async (task) => `done ${task.id}`, { now });
+
+    await queue.poll();
+    await queue.idle();
+
+    expect(store.tasks[0]).toMatchObject({ status: "completed", result: "done 1", leaseOwner: null });
+  });
+
+  it("should limit concurrency per project", async () => {
+    store.add({ projectId: 1 });
+    store.add({ projectId: 1 });
+    store.add({ projectId: 2 });
+    const started: number[] = [];
+    const queue = new AgentTaskQueue(
+      store,
+      async (task) => {
+        started.push(task.id);
+      },
+      { now, concurrencyPerProject: 1 }
+    );
+
+    await queue.poll();
+    expect(started.sort()).toEqual([1, 3]);
+
+    await queue.idle();
+    await queue.poll();
+    await queue.idle();
+    expect(started).toContain(2);
+  });
+
+  it("should retry failures with exponential backoff", async () => {
+    store.add({ projectId: 1 });
+    const queue = new AgentTaskQueue(
+      store,
+      async () => {
+        throw new Error("model timeout");
+      },
+      { now, backoffBaseMs: 1000 }
+    );
+
+    await queue.poll();
+    await queue.idle();
+    expect(store.tasks[0]).toMatchObject({ status: "pending", retries: 1, error: "model timeout" });
+    expect(store.tasks[0].runAfter?.getTime()).toBe(clock.getTime() + 1000);
+
+    // Not runnable until the backoff has elapsed
+    await queue.poll();
+    await queue.idle();
+    expect(store.tasks[0].retries).toBe(1);
+
+    clock = new Date(clock.getTime() + 1000);
+    await queue.poll();
+    await queue.idle();
+    expect(store.tasks[0].runAfter?.getTime()).toBe(clock.getTime() + 2000);
+  });
+
+  it("should fail tasks at once when a retry cannot help", async () => {
+    store.add({ projectId: 1 });
+    const queue = new AgentTaskQueue(
+      store,
+      async () => {
+        throw new FinalTaskError("Execution rejected: Not yet");
+      },
+      { now }
+    );
+
+    await queue.poll();
+    await queue.idle();
+    expect(store.tasks[0]).toMatchObject({ status: "failed", retries: 0, error: "Execution rejected: Not yet" });
+  });
+
+  it("should dead-letter tasks that keep failing", async () => {
+    store.add({ projectId: 1, maxRetries: 1 });
+    const queue = new AgentTaskQueue(
+      store,
+      async () => {
+        throw new Error("boom");
+      },
+      { now }
+    );
+
+    await queue.poll();
+    await queue.idle();
+
+    expect(store.tasks[0].status).toBe("dead_letter");
+    expect(store.tasks[0].error).toBe("Task failed 1 times: boom");
+  });
+
+  it("should reclaim tasks whose lease expired", async () => {
+    store.add({
+      projectId: 1,
+      status: "running",
+      leaseOwner: "crashed-worker",
+      leaseExpiresAt: new Date(clock.getTime() - 1),
+    });
+    const queue = new AgentTaskQueue(store, async () => "recovered", { now, workerId: "worker-2" });
+
+    await queue.poll();
+    await queue.idle();
+
+    expect(store.tasks[0]).toMatchObject({ status: "completed", result: "recovered", retries: 1 });
+  });
+
+  it("should dead-letter tasks whose lease keeps expiring", async () => {
+    store.add({
+      projectId: 1,
+      status: "running",
+      retries: 2,
+      leaseOwner: "crashed-worker",
+      leaseExpiresAt: new Date(clock.getTime() - 1),
+    });
+    let runs = 0;
+    const queue = new AgentTaskQueue(store, async () => `run ${++runs}`, { now, workerId: "worker-2" });
+
+    await queue.poll();
+    await queue.idle();
+
+    expect(runs).toBe(0);
+    expect(store.tasks[0]).toMatchObject({
+      status: "dead_letter",
+      retries: 3,
+      leaseOwner: null,
+      error: "Task failed 3 times: its lease expired before it finished",
+    });
+  });
+
+  it("should leave the lease to expire when the result cannot be stored", async () => {
+    store.add({ projectId: 1 });
+    store.release = async () => {
+      throw new Error("Connection lost");
+    };
+    const queue = new AgentTaskQueue(store, async () => "done", { now, workerId: "worker-1" });
+
+    await queue.poll();
+    await expect(queue.idle()).resolves.toBeUndefined();
+
+    expect(store.tasks[0]).toMatchObject({ status: "running", leaseOwner: "worker-1" });
+  });
+
+  it("should not let two workers claim the same task", async () => {
+    store.add({ projectId: 1 });
+    const runs: string[] = [];
+    const handler = (name: string) => async () => {
+      runs.push(name);
+    };
+    const first = new AgentTaskQueue(store, handler("first"), { now, concurrencyPerProject: 5 });
+    const second = new AgentTaskQueue(store, handler("second"), { now, concurrencyPerProject: 5 });
+
+    await Promise.all([first.poll(), second.poll()]);
+    await Promise.all([first.idle(), second.idle()]);
+
+    expect(runs).toHaveLength(1);
+  });
+
+  it("should cancel and pause running tasks from their stored control state", async () => {
+    const task = store.add({ projectId: 1 });
+    const states: string[] = [];
+    const queue = new AgentTaskQueue(
+      store,
+      async (_task, control) => {
+        states.push(control.state);
+        Object.assign(store.tasks[0], { pausedAt: clock });
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        states.push(control.state);
+        Object.assign(store.tasks[0], { status: "cancelled", leaseOwner: null });
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        states.push(control.state);
+        return "ignored";
+      },
+      { now, pollIntervalMs: 5 }
+    );
+
+    await queue.poll();
+    await queue.idle();
+
+    expect(states).toEqual(["running", "paused", "cancelled"]);
+    expect(store.tasks[0]).toMatchObject({ id: task.id, status: "cancelled" });
+    expect(store.tasks[0].result).toBeUndefined();
+  });
+});
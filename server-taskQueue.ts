@@ -0,0 +1,319 @@
+/**
+ * Agent Task Queue - Durable work queue backed by the agentTasks table
+ * Workers claim pending tasks with leases, retry failures with backoff and dead-letter
+ * tasks that keep failing. Handlers throw FinalTaskError for failures a retry cannot fix.
+ * Tasks held by a crashed server are picked up again once their lease expires, which counts as a retry.
+ * Running tasks are watched for cancellation and pause requests made through the API.
+ */
+
+import { randomUUID } from "crypto";
+import {
+  claimAgentTask,
+  countLeasedAgentTasks,
+  getAgentTaskControl,
+  getRunnableAgentTasks,
+  releaseAgentTask,
+  renewAgentTaskLease,
+  type Database,
+} from "./server-aideService";
+import { RunControl } from "./server-runControl";
+
+export interface QueuedTask {
+  id: number;
+  projectId: number;
+  runId?: number | null;
+  agentType: "planner" | "coder" | "verifier" | "tester" | "reviewer" | "executor";
+  status: "pending" | "running" | "completed" | "failed" | "dead_letter" | "cancelled";
+  prompt: string;
+  retries: number;
+  maxRetries: number;
+  runAfter?: Date | null;
+  leaseOwner?: string | null;
+  leaseExpiresAt?: Date | null;
+  pausedAt?: Date | null;
+}
+
+/**
+ * Persistence used by the queue; the database implementation is createDatabaseTaskStore
+ */
+export interface TaskQueueStore {
+  listRunnable(now: Date, limit: number): Promise<QueuedTask[]>;
+  countLeased(projectId: number, now: Date): Promise<number>;
+  claim(task: QueuedTask, owner: string, leaseExpiresAt: Date): Promise<boolean>;
+  renewLease(taskId: number, owner: string, leaseExpiresAt: Date): Promise<boolean>;
+  readControl(taskId: number): Promise<Pick<QueuedTask, "status" | "pausedAt"> | null>;
+  release(
+    taskId: number,
+    owner: string,
+    updates: {
+      status: QueuedTask["status"];
+      result?: string;
+      error?: string;
+      retries?: number;
+      runAfter?: Date;
+      completedAt?: Date;
+    }
+  ): Promise<void>;
+}
+
+/**
+ * A failure that would happen again on retry, e.g. a rejected approval; the task is marked failed at once
+ */
+export class FinalTaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FinalTaskError";
+  }
+}
+
+/**
+ * Work performed for a claimed task. The control is cancelled when the task is cancelled,
+ * its lease is lost or the queue stops, and paused while the task is paused.
+ */
+export type TaskHandler = (task: QueuedTask, control: RunControl) => Promise<string | void>;
+
+export interface TaskQueueOptions {
+  workerId?: string;
+  concurrency?: number;
+  /**
+   * Maximum tasks running at once for a single project
+   */
+  concurrencyPerProject?: number | ((projectId: number) => number);
+  leaseMs?: number;
+  pollIntervalMs?: number;
+  backoffBaseMs?: number;
+  backoffMaxMs?: number;
+  now?: () => Date;
+}
+
+export function createDatabaseTaskStore(db: Database): TaskQueueStore {
+  return {
+    listRunnable: (now, limit) => getRunnableAgentTasks(db, now, limit),
+    countLeased: (projectId, now) => countLeasedAgentTasks(db, projectId, now),
+    claim: (task, owner, leaseExpiresAt) => claimAgentTask(db, task, owner, leaseExpiresAt),
+    renewLease: (taskId, owner, leaseExpiresAt) => renewAgentTaskLease(db, taskId, owner, leaseExpiresAt),
+    readControl: (taskId) => getAgentTaskControl(db, taskId),
+    release: (taskId, owner, updates) => releaseAgentTask(db, taskId, owner, updates),
+  };
+}
+
+export class AgentTaskQueue {
+  private workerId: string;
+  private concurrency: number;
+  private leaseMs: number;
+  private pollIntervalMs: number;
+  private backoffBaseMs: number;
+  private backoffMaxMs: number;
+  private now: () => Date;
+  private inFlight = new Map<number, { control: RunControl; done: Promise<void> }>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling: Promise<void> | null = null;
+
+  constructor(
+    private store: TaskQueueStore,
+    private handler: TaskHandler,
+    private options: TaskQueueOptions = {}
+  ) {
+    this.workerId = options.workerId || `worker-${randomUUID()}`;
+    this.concurrency = options.concurrency ?? 4;
+    this.leaseMs = options.leaseMs ?? 60_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.backoffBaseMs = options.backoffBaseMs ?? 5000;
+    this.backoffMaxMs = options.backoffMaxMs ?? 5 * 60_000;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Start polling for work
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => console.error("Task queue poll error:", error));
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Stop polling and abort running tasks; their leases expire and another worker retries them
+   */
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.inFlight.forEach(({ control }) => control.cancel("Queue stopped"));
+    await this.idle();
+  }
+
+  /**
+   * Claim as many runnable tasks as capacity allows and start them
+   */
+  async poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.claimAvailable().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  /**
+   * Resolve once every task started so far has finished
+   */
+  async idle(): Promise<void> {
+    await Promise.all(Array.from(this.inFlight.values()).map((entry) => entry.done));
+  }
+
+  get runningTaskIds(): number[] {
+    return Array.from(this.inFlight.keys());
+  }
+
+  private async claimAvailable(): Promise<void> {
+    const capacity = this.concurrency - this.inFlight.size;
+    if (capacity <= 0) return;
+
+    const now = this.now();
+    // Over-fetch so tasks skipped for per-project limits do not starve other projects
+    const candidates = await this.store.listRunnable(now, capacity * 4);
+    const leasedByProject = new Map<number, number>();
+    let started = 0;
+
+    for (const task of candidates) {
+      if (started >= capacity) break;
+      if (this.inFlight.has(task.id)) continue;
+
+      // An expired lease means the last attempt never finished, e.g. its server crashed
+      const attempt = task.status === "running" ? { ...task, retries: task.retries + 1 } : task;
+      if (attempt !== task && attempt.retries >= task.maxRetries) {
+        await this.deadLetterAbandoned(attempt);
+        continue;
+      }
+
+      if (!leasedByProject.has(task.projectId)) {
+        leasedByProject.set(task.projectId, await this.store.countLeased(task.projectId, now));
+      }
+      const leased = leasedByProject.get(task.projectId) || 0;
+      if (leased >= this.projectLimit(task.projectId)) continue;
+
+      const claimed = await this.store.claim(attempt, this.workerId, this.leaseExpiry());
+      if (!claimed) continue;
+
+      leasedByProject.set(task.projectId, leased + 1);
+      this.launch(attempt);
+      started++;
+    }
+  }
+
+  /**
+   * Dead-letter a task whose lease expired on its last allowed attempt instead of running it again
+   */
+  private async deadLetterAbandoned(task: QueuedTask): Promise<void> {
+    const claimed = await this.store.claim(task, this.workerId, this.leaseExpiry());
+    if (!claimed) return;
+
+    await this.store.release(task.id, this.workerId, {
+      status: "dead_letter",
+      error: `Task failed ${task.retries} times: its lease expired before it finished`,
+      retries: task.retries,
+      completedAt: this.now(),
+    });
+  }
+
+  private launch(task: QueuedTask): void {
+    const control = new RunControl();
+    if (task.pausedAt) control.pause();
+
+    const renewal = setInterval(async () => {
+      try {
+        const renewed = await this.store.renewLease(task.id, this.workerId, this.leaseExpiry());
+        if (!renewed) control.cancel("Lease lost");
+      } catch (error) {
+        console.error(`Failed to renew lease for task ${task.id}:`, error);
+      }
+    }, Math.max(10, Math.floor(this.leaseMs / 3)));
+
+    const watch = setInterval(() => {
+      this.syncControl(task.id, control).catch((error) =>
+        console.error(`Failed to read control state for task ${task.id}:`, error)
+      );
+    }, this.pollIntervalMs);
+
+    const done = this.run(task, control).finally(() => {
+      clearInterval(renewal);
+      clearInterval(watch);
+      this.inFlight.delete(task.id);
+    });
+
+    this.inFlight.set(task.id, { control, done });
+  }
+
+  /**
+   * Apply cancel/pause/resume requests stored on the task row to the running task
+   */
+  private async syncControl(taskId: number, control: RunControl): Promise<void> {
+    const state = await this.store.readControl(taskId);
+    if (!state || state.status === "cancelled") {
+      control.cancel();
+    } else if (state.pausedAt) {
+      control.pause();
+    } else {
+      control.resume();
+    }
+  }
+
+  private async run(task: QueuedTask, control: RunControl): Promise<void> {
+    const { signal } = control;
+    let outcome: Parameters<TaskQueueStore["release"]>[2];
+
+    try {
+      const result = await this.handler(task, control);
+      // Cancelled or lease lost: the row is no longer ours. Queue stopping: the lease expires and it is retried.
+      if (signal.aborted) return;
+
+      outcome = { status: "completed", result: result || undefined, completedAt: this.now() };
+    } catch (error) {
+      if (signal.aborted) return;
+
+      const retries = task.retries + 1;
+      const message = error instanceof Error ? error.message : String(error);
+
+      outcome =
+        error instanceof FinalTaskError
+          ? { status: "failed", error: message, completedAt: this.now() }
+          : retries >= task.maxRetries
+          ? {
+              status: "dead_letter",
+              error: `Task failed ${retries} times: ${message}`,
+              retries,
+              completedAt: this.now(),
+            }
+          : {
+              status: "pending",
+              error: message,
+              retries,
+              runAfter: new Date(this.now().getTime() + this.backoff(retries)),
+            };
+    }
+
+    try {
+      await this.store.release(task.id, this.workerId, outcome);
+    } catch (error) {
+      // Nothing awaits the task until idle() or stop(); the lease expires and the task is claimed again
+      console.error(`Failed to release task ${task.id}:`, error);
+    }
+  }
+
+  /**
+   * Exponential backoff: base, 2x base, 4x base ... capped at backoffMaxMs
+   */
+  private backoff(retries: number): number {
+    return Math.min(this.backoffMaxMs, this.backoffBaseMs * 2 ** (retries - 1));
+  }
+
+  private leaseExpiry(): Date {
+    return new Date(this.now().getTime() + this.leaseMs);
+  }
+
+  private projectLimit(projectId: number): number {
+    const limit = this.options.concurrencyPerProject ?? 1;
+    return typeof limit === "function" ? limit(projectId) : limit;
+  }
+}
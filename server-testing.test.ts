@@ -0,0 +1,134 @@
+/**
+ * AIDE Platform - Tester Tests
+ * Covers reading per-test results from runner output and the tester stage of a pipeline
+ */
+
+import { describe, it, expect } from "vitest";
+import { AgentOrchestrator, ExecutorAgent, TesterAgent, collectVerifiedChangesets } from "./server-agentOrchestrator";
+import { LocalStubProvider, type ChatMessage } from "./server-llmProviders";
+import { isTestFile, parseTestResults } from "./server-testing";
+
+const PLAN_JSON = JSON.stringify({
+  summary: "Add numbers",
+  steps: [{ id: "add", description: "Add function", files: ["src/add.ts"], acceptanceCriteria: ["adds two numbers"] }],
+});
+
+const addCode = (operator: string) =>
+  "export function add(a: number, b: number): number {\n" +
+  '  if (!Number.isFinite(a) || !Number.isFinite(b)) throw new Error("Not a number");\n' +
+  `  return a ${operator} b;\n}`;
+
+const changesetFor = (path: string, content: string) =>
+  JSON.stringify({ summary: `Write ${path}`, changes: [{ op: "create", path, content }] });
+
+// Stands in for the project's test runner: one TAP line for the single test the tester wrote
+const EXECUTOR = {
+  command: [
+    "node",
+    "-e",
+    "const fs = require('fs'); fs.accessSync('src/add.test.ts');" +
+      "const ok = fs.readFileSync('src/add.ts', 'utf8').includes('a + b');" +
+      "console.log((ok ? 'ok' : 'not ok') + ' 1 - adds two numbers'); process.exit(ok ? 0 : 1);",
+  ],
+  requireNetworkIsolation: false,
+};
+
+/**
+ * Test Suite: Tester
+ */
+describe("Tester", () => {
+  it("should read per-test results from TAP and checkmark output", () => {
+    expect(parseTestResults("TAP version 13\nok 1 - adds\nnot ok 2 - subtracts\nok 3 - divides # SKIP\n1..3")).toEqual([
+      { name: "adds", status: "passed" },
+      { name: "subtracts", status: "failed" },
+      { name: "divides", status: "skipped" },
+    ]);
+    const vitest =
+      " ✓ src/add.test.ts > adds 3ms\n × src/add.test.ts > subtracts 12ms\n" +
+      " ✓ src/util.test.ts (3 tests) 10ms\n ↓ src/slow.test.ts (1 test | 1 skipped)\n Tests  1 failed | 4 passed";
+    expect(parseTestResults(vitest)).toEqual([
+      { name: "src/add.test.ts > adds", status: "passed" },
+      { name: "src/add.test.ts > subtracts", status: "failed" },
+    ]);
+    expect(parseTestResults("All good")).toEqual([]);
+
+    expect(["src/a.test.ts", "lib/b.spec.mjs", "src/__tests__/c.ts"].every(isTestFile)).toBe(true);
+    expect(isTestFile("src/testing.ts")).toBe(false);
+  });
+
+  it("should send failing tests back to the coder and ship passing tests with the code", async () => {
+    const coderInputs: ChatMessage[][] = [];
+    const outputs = [addCode("-"), addCode("+")];
+    const testerInputs: ChatMessage[][] = [];
+    const orchestrator = new AgentOrchestrator({
+      executor: EXECUTOR,
+      providers: {
+        planner: new LocalStubProvider({ responder: () => PLAN_JSON }),
+        coder: new LocalStubProvider({
+          responder: (messages) => {
+            coderInputs.push(messages);
+            return changesetFor("src/add.ts", outputs[coderInputs.length - 1]);
+          },
+        }),
+        tester: new LocalStubProvider({
+          responder: (messages) => {
+            testerInputs.push(messages);
+            return changesetFor(
+              "src/add.test.ts",
+              'import { add } from "./add";\n\nif (add(1, 2) !== 3) throw new Error("adds two numbers");'
+            );
+          },
+        }),
+        verifier: new LocalStubProvider({ responder: () => "LGTM" }),
+      },
+    });
+
+    const tasks = await orchestrator.orchestrate("Add numbers", 1, {
+      pipeline: {
+        name: "tested",
+        stages: [
+          { id: "plan", agent: "planner", maxFailures: 1 },
+          { id: "code", agent: "coder", maxFailures: 1 },
+          { id: "test", agent: "tester", onFailure: "code", maxFailures: 3 },
+          { id: "verify", agent: "verifier", onFailure: "code", maxFailures: 3 },
+          { id: "execute", agent: "executor", maxFailures: 1 },
+        ],
+      },
+    });
+
+    expect(tasks.map((t) => `${t.agentType}:${t.attempt}:${t.status}`)).toEqual([
+      "planner:1:completed",
+      "coder:1:completed",
+      "tester:1:failed",
+      "coder:2:completed",
+      "tester:2:completed",
+      "verifier:2:completed",
+      "executor:1:completed",
+    ]);
+    expect(testerInputs[0][testerInputs[0].length - 1].content).toContain(
+      "Write tests for: [add] Add function\n\nAcceptance criteria:\n- adds two numbers"
+    );
+    expect(tasks[2].testResults).toEqual([{ name: "adds two numbers", status: "failed" }]);
+    expect(coderInputs[1][coderInputs[1].length - 1].content).toContain(
+      "Tests of attempt 1 failed:\n- Test failed: adds two numbers"
+    );
+    expect(tasks[6].testResults).toEqual([{ name: "adds two numbers", status: "passed" }]);
+    expect(collectVerifiedChangesets(tasks).map((c) => c.changes[0].path)).toEqual(["src/add.ts", "src/add.test.ts"]);
+  });
+
+  it("should only let the tester write test files", async () => {
+    const tester = new TesterAgent(
+      new LocalStubProvider({ responder: () => changesetFor("src/add.ts", addCode("+")) }),
+      new ExecutorAgent(EXECUTOR)
+    );
+
+    const response = await tester.test("Add numbers", {
+      projectId: 1,
+      files: new Map(),
+      changeset: { summary: "", changes: [{ op: "create", path: "src/sum.ts", content: addCode("+") }] },
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain("Tester may only write test files, not src/add.ts");
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Testing - Test files written by the tester agent and the results of running them
+ * Per-test results are read from the executor's output, so any runner that prints TAP or
+ * a checkmark per test (vitest, jest, mocha, node --test) is understood.
+ */
+
+export interface TestResult {
+  name: string;
+  status: "passed" | "failed" | "skipped";
+}
+
+const TEST_FILE = /(\.(test|spec)\.[cm]?[jt]sx?$)|(^|\/)__tests__\//;
+
+/**
+ * The tester may only write test files, so its changes never overwrite the code under test
+ */
+export function isTestFile(path: string): boolean {
+  return TEST_FILE.test(path);
+}
+
+const TAP_LINE = /^\s*(not ok|ok)\s+\d+\s*(?:-\s*)?(.*?)\s*(?:#\s*(skip|todo)\b.*)?$/i;
+const MARKED_LINE = /^\s*([✓✔√×✕✗✖↓])\s+(.+?)\s*$/;
+const DURATION = /\s+\(?\d+(\.\d+)?\s*m?s\)?$/;
+// A test file's summary, e.g. vitest's "✓ src/add.test.ts (3 tests | 1 skipped) 10ms", not a test of its own
+const FILE_SUMMARY = /\(\d+ tests?(\s*\|[^)]*)?\)/;
+
+/**
+ * One result per test line of a runner's output; empty when the output has none, e.g. for a summary-only reporter
+ */
+export function parseTestResults(output: string): TestResult[] {
+  const results: TestResult[] = [];
+
+  for (const line of output.split("\n")) {
+    const tap = line.match(TAP_LINE);
+    if (tap) {
+      const status = tap[3] ? "skipped" : tap[1].toLowerCase() === "ok" ? "passed" : "failed";
+      if (tap[2]) results.push({ name: tap[2], status });
+      continue;
+    }
+
+    const marked = line.match(MARKED_LINE);
+    if (marked && !FILE_SUMMARY.test(marked[2])) {
+      const name = marked[2].replace(/\s*\[skipped\]$/, "").replace(DURATION, "");
+      const status = "✓✔√".includes(marked[1]) ? "passed" : marked[1] === "↓" ? "skipped" : "failed";
+      results.push({ name, status });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,161 @@
+/**
+ * Type Checker - Runs the TypeScript compiler over an in-memory copy of a project
+ * Used by the Verifier agent to turn proposed changes into precise diagnostics
+ */
+
+import { dirname } from "path";
+import ts from "typescript";
+import type { FileMap } from "./server-changeset";
+
+export interface TypeDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  code: number;
+  message: string;
+  category: "error" | "warning";
+}
+
+export interface TypeCheckOptions {
+  /**
+   * Only report diagnostics for these files (all project files when omitted)
+   */
+  files?: string[];
+  /**
+   * Drop "Cannot find module" errors for package imports; dependencies are not part of the
+   * virtual file system. Unresolved relative imports are always reported.
+   */
+  ignoreMissingModules?: boolean;
+}
+
+const ROOT = "/project/";
+const CHECKED_EXTENSIONS = /\.(ts|tsx|mts|cts)$/;
+const MISSING_MODULE_CODES = new Set([2307, 2792, 7016]);
+
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  allowImportingTsExtensions: true,
+  resolveJsonModule: true,
+  noEmit: true,
+  types: [],
+};
+
+// Default library files are parsed once and shared by every check
+const libSourceFiles = new Map<string, ts.SourceFile>();
+
+/**
+ * Type-check project files held in memory and return the diagnostics, sorted by file and position
+ */
+export function checkTypes(files: FileMap, options: TypeCheckOptions = {}): TypeDiagnostic[] {
+  const compilerOptions = resolveCompilerOptions(files);
+  const virtualFiles = new Map<string, string>();
+  files.forEach((content, path) => virtualFiles.set(ROOT + path, content));
+
+  const libDirectory = dirname(ts.getDefaultLibFilePath(compilerOptions));
+  const isLibFile = (fileName: string) => fileName.startsWith(libDirectory);
+
+  const host: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      if (virtualFiles.has(fileName)) {
+        return ts.createSourceFile(fileName, virtualFiles.get(fileName) || "", languageVersion, true);
+      }
+      if (!isLibFile(fileName)) return undefined;
+
+      const cached = libSourceFiles.get(fileName);
+      if (cached) return cached;
+
+      const text = ts.sys.readFile(fileName);
+      if (text === undefined) return undefined;
+      const sourceFile = ts.createSourceFile(fileName, text, languageVersion);
+      libSourceFiles.set(fileName, sourceFile);
+      return sourceFile;
+    },
+    getDefaultLibFileName: (opts) => ts.getDefaultLibFilePath(opts),
+    writeFile: () => {},
+    getCurrentDirectory: () => ROOT,
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => "\n",
+    fileExists: (fileName) =>
+      virtualFiles.has(fileName) || (isLibFile(fileName) && ts.sys.fileExists(fileName)),
+    readFile: (fileName) =>
+      virtualFiles.get(fileName) ?? (isLibFile(fileName) ? ts.sys.readFile(fileName) : undefined),
+    directoryExists: (directory) =>
+      isLibFile(directory) ||
+      Array.from(virtualFiles.keys()).some((fileName) => fileName.startsWith(directory.replace(/\/?$/, "/"))),
+    getDirectories: () => [],
+  };
+
+  const rootNames = Array.from(virtualFiles.keys()).filter((fileName) => CHECKED_EXTENSIONS.test(fileName));
+  const program = ts.createProgram({ rootNames, options: compilerOptions, host });
+  const reportFor = options.files ? new Set(options.files.map((path) => ROOT + path)) : null;
+  const ignoreMissingModules = options.ignoreMissingModules ?? true;
+
+  const diagnostics: TypeDiagnostic[] = [];
+
+  for (const diagnostic of ts.getPreEmitDiagnostics(program)) {
+    if (!diagnostic.file || !virtualFiles.has(diagnostic.file.fileName)) continue;
+    if (reportFor && !reportFor.has(diagnostic.file.fileName)) continue;
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+    if (ignoreMissingModules && MISSING_MODULE_CODES.has(diagnostic.code) && !isRelativeImportError(message)) {
+      continue;
+    }
+    if (diagnostic.category !== ts.DiagnosticCategory.Error && diagnostic.category !== ts.DiagnosticCategory.Warning) {
+      continue;
+    }
+
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start || 0);
+    diagnostics.push({
+      file: diagnostic.file.fileName.slice(ROOT.length),
+      line: line + 1,
+      column: character + 1,
+      code: diagnostic.code,
+      message,
+      category: diagnostic.category === ts.DiagnosticCategory.Error ? "error" : "warning",
+    });
+  }
+
+  return diagnostics.sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column
+  );
+}
+
+/**
+ * Format a diagnostic the way tsc prints it: file(line,col): error TS1234: message
+ */
+export function formatDiagnostic(diagnostic: TypeDiagnostic): string {
+  return `${diagnostic.file}(${diagnostic.line},${diagnostic.column}): ${diagnostic.category} TS${diagnostic.code}: ${diagnostic.message}`;
+}
+
+function isRelativeImportError(message: string): boolean {
+  const specifier = message.match(/'([^']+)'/)?.[1] || "";
+  return specifier.startsWith(".") || specifier.startsWith("/");
+}
+
+/**
+ * Use the project's own tsconfig.json compiler options when it has one
+ */
+function resolveCompilerOptions(files: FileMap): ts.CompilerOptions {
+  const tsconfig = files.get("tsconfig.json");
+  if (!tsconfig) return DEFAULT_COMPILER_OPTIONS;
+
+  const { config, error } = ts.parseConfigFileTextToJson("tsconfig.json", tsconfig);
+  if (error || !config?.compilerOptions) return DEFAULT_COMPILER_OPTIONS;
+
+  const { options } = ts.convertCompilerOptionsFromJson(config.compilerOptions, ROOT);
+  return {
+    ...DEFAULT_COMPILER_OPTIONS,
+    ...options,
+    noEmit: true,
+    skipLibCheck: true,
+    // Project "types" packages live in node_modules, which the virtual file system does not contain
+    types: [],
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * AIDE Platform - Usage Tests
+ * Covers cost estimates and the budget checks that stop runs
+ */
+
+import { describe, it, expect } from "vitest";
+import { BudgetExceededError, BudgetMeter, estimateCost, modelPricesFromEnv, usageOf } from "./server-usage";
+
+/**
+ * Test Suite: Usage
+ */
+describe("Usage", () => {
+  it("should price models by their longest matching prefix", () => {
+    expect(estimateCost("gpt-4o-mini-2024-07-18", 1_000_000, 0)).toBeCloseTo(0.15);
+    expect(estimateCost("gpt-4o", 0, 1_000_000)).toBeCloseTo(10);
+    expect(estimateCost("llama3", 1_000_000, 1_000_000)).toBe(0);
+
+    const prices = modelPricesFromEnv({ AIDE_MODEL_PRICES: '{"llama3": {"prompt": 1, "completion": 2}}' });
+    expect(estimateCost("llama3", 1_000_000, 1_000_000, prices)).toBe(3);
+  });
+
+  it("should estimate tokens for completions that report no usage", () => {
+    const messages = [{ role: "user" as const, content: "12345678" }];
+
+    expect(usageOf(messages, { content: "1234", model: "gpt-4o" })).toEqual({
+      model: "gpt-4o",
+      promptTokens: 2,
+      completionTokens: 1,
+      costUsd: 0.000015,
+      estimated: true,
+    });
+    expect(
+      usageOf(messages, { content: "", model: "gpt-4o", usage: { promptTokens: 10, completionTokens: 5 } }).estimated
+    ).toBeUndefined();
+  });
+
+  it("should stop once the run or the project reaches a limit", () => {
+    const meter = new BudgetMeter({ maxRunTokens: 100 });
+    meter.record({ model: "m", promptTokens: 60, completionTokens: 30, costUsd: 0 });
+    expect(() => meter.check()).not.toThrow();
+
+    meter.record({ model: "m", promptTokens: 10, completionTokens: 0, costUsd: 0 });
+    expect(() => meter.check()).toThrow("Budget exceeded: run used 100 of 100 tokens");
+
+    const project = new BudgetMeter({ maxProjectCostUsd: 5 }, { promptTokens: 0, completionTokens: 0, costUsd: 5.2 });
+    expect(() => project.check()).toThrow(BudgetExceededError);
+  });
+
+  it("should split what is left of the budget between parts that spend at the same time", () => {
+    const used = (tokens: number) => ({ model: "m", promptTokens: tokens, completionTokens: 0, costUsd: 0 });
+    const meter = new BudgetMeter(
+      { maxRunTokens: 1000, maxProjectTokens: 5000 },
+      { promptTokens: 4200, completionTokens: 0, costUsd: 0 }
+    );
+    meter.record(used(200));
+
+    const [a, b] = meter.reserve(2);
+    a.record(used(300));
+
+    expect(() => a.check()).toThrow("Budget exceeded: parallel step used 300 of 300 tokens");
+    expect(() => b.check()).not.toThrow();
+    expect(meter.totals.promptTokens).toBe(500);
+    b.record(used(300));
+    expect(() => b.check()).toThrow(BudgetExceededError);
+    expect(meter.exceeded()?.message).toBe("Budget exceeded: project used 5000 of 5000 tokens");
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Usage & Budgets - Token and cost accounting for agent model calls
+ * Every model call is priced from its token counts; a project's budget stops a run once it is spent.
+ */
+
+import { z } from "zod";
+import { estimateTokens, type ChatMessage, type CompletionResult } from "./server-llmProviders";
+
+/**
+ * Tokens and estimated cost of one or more model calls.
+ * estimated is set when any of the counts were estimated from text, e.g. for streamed completions.
+ */
+export interface ModelUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  estimated?: boolean;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+export type ModelPrices = Record<string, ModelPrice>;
+
+/**
+ * List prices of the hosted models the providers default to; local and self-hosted models cost nothing.
+ * Keys match model names by prefix, the longest match wins.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrices = {
+  "gemini-1.5-pro": { prompt: 1.25, completion: 5 },
+  "gemini-1.5-flash": { prompt: 0.075, completion: 0.3 },
+  "gemini-2.0-flash": { prompt: 0.1, completion: 0.4 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+};
+
+/**
+ * Default prices, overridden by AIDE_MODEL_PRICES: JSON of model name to { prompt, completion } per million tokens
+ */
+export function modelPricesFromEnv(env: Record<string, string | undefined> = process.env): ModelPrices {
+  if (!env.AIDE_MODEL_PRICES) return DEFAULT_MODEL_PRICES;
+
+  const parsed = z
+    .record(z.string(), z.object({ prompt: z.number().min(0), completion: z.number().min(0) }))
+    .safeParse(JSON.parse(env.AIDE_MODEL_PRICES));
+  if (!parsed.success) {
+    throw new Error(`Invalid AIDE_MODEL_PRICES: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+  return { ...DEFAULT_MODEL_PRICES, ...parsed.data };
+}
+
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices: ModelPrices = DEFAULT_MODEL_PRICES
+): number {
+  const key = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+
+  const price = prices[key];
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
+
+/**
+ * Usage of one completion; counts the provider did not report are estimated from the text
+ */
+export function usageOf(
+  messages: ChatMessage[],
+  completion: CompletionResult,
+  prices: ModelPrices = DEFAULT_MODEL_PRICES
+): ModelUsage {
+  const promptTokens =
+    completion.usage?.promptTokens ?? estimateTokens(messages.map((m) => m.content).join("\n"));
+  const completionTokens = completion.usage?.completionTokens ?? estimateTokens(completion.content);
+
+  return {
+    model: completion.model,
+    promptTokens,
+    completionTokens,
+    costUsd: estimateCost(completion.model, promptTokens, completionTokens, prices),
+    estimated: completion.usage ? undefined : true,
+  };
+}
+
+/**
+ * Combine the usage of several calls by the same agent
+ */
+export function combineUsage(a: ModelUsage | undefined, b: ModelUsage): ModelUsage {
+  if (!a) return b;
+  return {
+    model: a.model === b.model ? a.model : `${a.model}+${b.model}`,
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    costUsd: a.costUsd + b.costUsd,
+    estimated: a.estimated || b.estimated || undefined,
+  };
+}
+
+export function emptyTotals(): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Sum usage records, e.g. the steps of a run; rows without usage count as zero
+ */
+export function sumUsage(
+  items: { promptTokens?: number | null; completionTokens?: number | null; costUsd?: number | string | null }[]
+): UsageTotals {
+  return items.reduce<UsageTotals>(
+    (totals, item) => ({
+      promptTokens: totals.promptTokens + (item.promptTokens || 0),
+      completionTokens: totals.completionTokens + (item.completionTokens || 0),
+      costUsd: totals.costUsd + Number(item.costUsd || 0),
+    }),
+    emptyTotals()
+  );
+}
+
+export const BudgetSchema = z.object({
+  maxRunTokens: z.number().int().positive().optional(),
+  maxRunCostUsd: z.number().positive().optional(),
+  maxProjectTokens: z.number().int().positive().optional(),
+  maxProjectCostUsd: z.number().positive().optional(),
+});
+
+export type Budget = z.infer<typeof BudgetSchema>;
+
+/**
+ * Read a stored budget; projects without one have no limits
+ */
+export function parseBudget(raw: unknown): Budget {
+  if (raw === null || raw === undefined) return {};
+
+  const parsed = BudgetSchema.safeParse(typeof raw === "string" ? JSON.parse(raw) : raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid budget: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(`Budget exceeded: ${message}`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Tracks a run's usage against its project's budget.
+ * projectSpend is what the project had used before the run started, not counting the run's own earlier usage;
+ * spent is what the run itself had used before it was resumed from a checkpoint.
+ */
+export class BudgetMeter {
+  private run: UsageTotals;
+
+  constructor(
+    private budget: Budget = {},
+    private projectSpend: UsageTotals = emptyTotals(),
+    spent: UsageTotals = emptyTotals(),
+    private parent?: BudgetMeter
+  ) {
+    this.run = { ...spent };
+  }
+
+  get totals(): UsageTotals {
+    return { ...this.run };
+  }
+
+  record(usage: ModelUsage | undefined): void {
+    if (!usage) return;
+    this.run.promptTokens += usage.promptTokens;
+    this.run.completionTokens += usage.completionTokens;
+    this.run.costUsd += usage.costUsd;
+    this.parent?.record(usage);
+  }
+
+  /**
+   * Throws BudgetExceededError once the run or the project has reached a limit
+   */
+  check(): void {
+    const error = this.exceeded();
+    if (error) throw error;
+  }
+
+  /**
+   * The limit the run or the project has reached, if any
+   */
+  exceeded(): BudgetExceededError | undefined {
+    const { maxRunTokens, maxRunCostUsd, maxProjectTokens, maxProjectCostUsd } = this.budget;
+    const runTokens = this.run.promptTokens + this.run.completionTokens;
+    const projectTokens = runTokens + this.projectSpend.promptTokens + this.projectSpend.completionTokens;
+    const projectCost = this.run.costUsd + this.projectSpend.costUsd;
+    const spender = this.parent ? "parallel step" : "run";
+
+    if (maxRunTokens !== undefined && runTokens >= maxRunTokens) {
+      return new BudgetExceededError(`${spender} used ${runTokens} of ${maxRunTokens} tokens`);
+    }
+    if (maxRunCostUsd !== undefined && this.run.costUsd >= maxRunCostUsd) {
+      return new BudgetExceededError(`${spender} cost ${formatUsd(this.run.costUsd)} of ${formatUsd(maxRunCostUsd)}`);
+    }
+    if (maxProjectTokens !== undefined && projectTokens >= maxProjectTokens) {
+      return new BudgetExceededError(`project used ${projectTokens} of ${maxProjectTokens} tokens`);
+    }
+    if (maxProjectCostUsd !== undefined && projectCost >= maxProjectCostUsd) {
+      return new BudgetExceededError(`project cost ${formatUsd(projectCost)} of ${formatUsd(maxProjectCostUsd)}`);
+    }
+    return this.parent?.exceeded();
+  }
+
+  /**
+   * Split what is left of the budget evenly between parts of the run that spend at the same time.
+   * Each part's meter stops at its share and counts its usage towards this meter as well, so parts that all
+   * pass a check at once cannot together go past a limit.
+   */
+  reserve(parts: number): BudgetMeter[] {
+    const { maxRunTokens, maxRunCostUsd, maxProjectTokens, maxProjectCostUsd } = this.budget;
+    const runTokens = this.run.promptTokens + this.run.completionTokens;
+    const projectTokens = this.projectSpend.promptTokens + this.projectSpend.completionTokens;
+    const tokens = remaining([
+      maxRunTokens === undefined ? undefined : maxRunTokens - runTokens,
+      maxProjectTokens === undefined ? undefined : maxProjectTokens - projectTokens - runTokens,
+    ]);
+    const cost = remaining([
+      maxRunCostUsd === undefined ? undefined : maxRunCostUsd - this.run.costUsd,
+      maxProjectCostUsd === undefined ? undefined : maxProjectCostUsd - this.projectSpend.costUsd - this.run.costUsd,
+    ]);
+
+    const share: Budget = {
+      maxRunTokens: tokens === undefined ? undefined : Math.floor(tokens / parts),
+      maxRunCostUsd: cost === undefined ? undefined : cost / parts,
+    };
+    return Array.from({ length: parts }, () => new BudgetMeter(share, emptyTotals(), emptyTotals(), this));
+  }
+}
+
+/**
+ * The smallest of the limits that are set, never below zero; undefined when none is
+ */
+function remaining(limits: (number | undefined)[]): number | undefined {
+  const set = limits.filter((limit): limit is number => limit !== undefined);
+  return set.length ? Math.max(0, Math.min(...set)) : undefined;
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(4)}`;
+}
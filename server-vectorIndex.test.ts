@@ -0,0 +1,102 @@
+/**
+ * AIDE Platform - Vector Index Tests
+ * Compares approximate search with an exact scan and checks that memory retrieval stays within its partitions
+ */
+
+import { describe, it, expect } from "vitest";
+import { LocalEmbeddingProvider, normalize } from "./server-embeddings";
+import { MemoryStorage, VectorEmbeddingService } from "./server-memorySystem";
+import { HnswIndex } from "./server-vectorIndex";
+
+/**
+ * mulberry32, so every run builds the same graph
+ */
+function seeded(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function exactTop(vectors: Map<string, number[]>, query: number[], k: number): string[] {
+  const q = normalize(query);
+  return Array.from(vectors)
+    .map(([id, v]) => ({ id, score: normalize(v).reduce((sum, x, i) => sum + x * q[i], 0) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((m) => m.id);
+}
+
+/**
+ * Test Suite: Vector Index
+ */
+describe("Vector Index", () => {
+  const random = seeded(7);
+  const vector = () => Array.from({ length: 16 }, () => random() * 2 - 1);
+  const vectors = new Map(Array.from({ length: 1500 }, (_, i) => [`v${i}`, vector()] as const));
+
+  it("should find nearly all of the exact nearest neighbors", () => {
+    const index = new HnswIndex({ random: seeded(1) });
+    vectors.forEach((v, id) => index.add(id, v));
+
+    let hits = 0;
+    const queries = Array.from({ length: 50 }, vector);
+    for (const query of queries) {
+      const found = new Set(index.search(query, 10).map((m) => m.id));
+      hits += exactTop(vectors, query, 10).filter((id) => found.has(id)).length;
+    }
+
+    expect(index.size).toBe(1500);
+    expect(hits / (queries.length * 10)).toBeGreaterThan(0.95);
+    const [best] = index.search(vectors.get("v3")!, 1);
+    expect(best).toEqual({ id: "v3", score: expect.closeTo(1, 6) });
+    expect(() => index.add("short", [1, 0])).toThrow("Vector has 2 dimensions, the index expects 16");
+  });
+
+  it("should keep the remaining vectors reachable after removals", () => {
+    const index = new HnswIndex({ random: seeded(2) });
+    vectors.forEach((v, id) => index.add(id, v));
+
+    const remaining = new Map(vectors);
+    for (let i = 0; i < 1500; i += 2) {
+      index.remove(`v${i}`);
+      remaining.delete(`v${i}`);
+    }
+
+    let hits = 0;
+    for (let i = 0; i < 50; i++) {
+      const query = vector();
+      const found = new Set(index.search(query, 10).map((m) => m.id));
+      hits += exactTop(remaining, query, 10).filter((id) => found.has(id)).length;
+    }
+
+    expect(index.size).toBe(750);
+    expect(index.has("v0")).toBe(false);
+    expect(hits / 500).toBeGreaterThan(0.9);
+    expect(index.search(vectors.get("v1")!, 5, (id) => id !== "v1")[0].id).not.toBe("v1");
+  });
+
+  it("should search only the querying user's memories and follow updates and deletes", async () => {
+    const storage = new MemoryStorage(new VectorEmbeddingService(new LocalEmbeddingProvider()));
+    const retry = await storage.store(1, "lesson", "retry", "Retry failed uploads with exponential backoff", 1);
+    await storage.store(1, "lesson", "pool", "Size the database connection pool to the worker count", 2);
+    await storage.store(2, "lesson", "retry", "Retry failed uploads with exponential backoff", 1);
+
+    const recall = (userId: number, query: string, projectId?: number) =>
+      storage.retrieve({ userId, projectId, query }).then((r) => r.entries.map((e) => e.id));
+
+    expect(await recall(1, "retry uploads")).toEqual([retry.id]);
+    expect(await recall(1, "retry uploads", 2)).toEqual([]);
+    const { entries } = await storage.retrieve({ userId: 1, query: "retry uploads" });
+    expect(entries[0].relevanceScore).toBeGreaterThan(0.3);
+
+    await storage.update(retry.id, 1, { value: "Cache compiled templates in memory" });
+    expect(await recall(1, "retry uploads")).toEqual([]);
+    expect(await recall(1, "cache templates")).toEqual([retry.id]);
+
+    await storage.delete(retry.id, 1);
+    expect(await recall(1, "cache templates")).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Vector Index - Approximate nearest-neighbor search over embeddings
+ * A hierarchical navigable small world (HNSW) graph: every vector is linked to its closest neighbors on
+ * layer 0 and, with exponentially falling probability, on sparser layers above it. Searches descend from
+ * the top layer greedily, so they visit a few hundred vectors instead of all of them.
+ */
+
+import { normalize } from "./server-embeddings";
+
+export interface VectorIndexOptions {
+  /**
+   * Links per vector on the upper layers; layer 0 keeps twice as many
+   */
+  m?: number;
+  /**
+   * Candidates considered when linking a new vector
+   */
+  efConstruction?: number;
+  /**
+   * Candidates considered per search; raise it for better recall at the cost of latency
+   */
+  efSearch?: number;
+  /**
+   * Source of the random layer assignment, for reproducible graphs
+   */
+  random?: () => number;
+}
+
+export interface VectorMatch {
+  id: string;
+  /**
+   * Cosine similarity to the query
+   */
+  score: number;
+}
+
+interface IndexNode {
+  id: string;
+  vector: number[];
+  /**
+   * Linked ids per layer, from 0 up to the node's own level
+   */
+  links: Set<string>[];
+}
+
+interface Candidate {
+  id: string;
+  score: number;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Insert into a list kept in ascending score order
+ */
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].score < candidate.score) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, candidate);
+}
+
+export class HnswIndex {
+  private nodes = new Map<string, IndexNode>();
+  private entryPoint?: string;
+  private dimensions?: number;
+  private m: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private random: () => number;
+  private levelFactor: number;
+
+  constructor(options: VectorIndexOptions = {}) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.random = options.random ?? Math.random;
+    this.levelFactor = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Add a vector, replacing any earlier vector under the same id
+   */
+  add(id: string, vector: number[]): void {
+    if (this.dimensions !== undefined && vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, the index expects ${this.dimensions}`);
+    }
+    if (this.nodes.has(id)) this.remove(id);
+
+    this.dimensions = vector.length;
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+    const node: IndexNode = {
+      id,
+      vector: normalize(vector),
+      links: Array.from({ length: level + 1 }, () => new Set<string>()),
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === undefined) {
+      this.entryPoint = id;
+      return;
+    }
+
+    const top = this.topLevel();
+    let entries = [this.entryPoint];
+    for (let layer = top; layer > level; layer--) {
+      entries = [this.searchLayer(node.vector, entries, 1, layer)[0].id];
+    }
+
+    for (let layer = Math.min(level, top); layer >= 0; layer--) {
+      const found = this.searchLayer(node.vector, entries, this.efConstruction, layer);
+      for (const neighbor of found.slice(-this.maxLinks(layer))) {
+        node.links[layer].add(neighbor.id);
+        this.link(neighbor.id, id, layer);
+      }
+      entries = found.map((c) => c.id);
+    }
+
+    if (level > top) this.entryPoint = id;
+  }
+
+  /**
+   * Unlink a vector and reconnect the neighbors that pointed at it
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+    this.nodes.delete(id);
+
+    node.links.forEach((links, layer) => {
+      for (const neighborId of links) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor?.links[layer]?.delete(id)) continue;
+
+        const candidates = new Set([...neighbor.links[layer], ...links]);
+        candidates.delete(neighborId);
+        neighbor.links[layer] = this.closest(neighbor.vector, candidates, this.maxLinks(layer));
+      }
+    });
+
+    if (this.entryPoint === id) {
+      let entry: IndexNode | undefined;
+      for (const candidate of this.nodes.values()) {
+        if (!entry || candidate.links.length > entry.links.length) entry = candidate;
+      }
+      this.entryPoint = entry?.id;
+    }
+    if (this.nodes.size === 0) this.dimensions = undefined;
+    return true;
+  }
+
+  /**
+   * The k most similar vectors, best first; a filter drops ids from the results but not from the traversal,
+   * so a filter that rejects most vectors can return fewer than k
+   */
+  search(vector: number[], k: number, filter?: (id: string) => boolean): VectorMatch[] {
+    if (this.entryPoint === undefined || k <= 0) return [];
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, the index expects ${this.dimensions}`);
+    }
+
+    const query = normalize(vector);
+    let entries = [this.entryPoint];
+    for (let layer = this.topLevel(); layer > 0; layer--) {
+      entries = [this.searchLayer(query, entries, 1, layer)[0].id];
+    }
+
+    return this.searchLayer(query, entries, Math.max(this.efSearch, k), 0)
+      .reverse()
+      .filter((c) => !filter || filter(c.id))
+      .slice(0, k);
+  }
+
+  private topLevel(): number {
+    return this.nodes.get(this.entryPoint!)!.links.length - 1;
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  /**
+   * Link from one node to another, dropping the farthest link when the node has too many
+   */
+  private link(from: string, to: string, layer: number): void {
+    const node = this.nodes.get(from)!;
+    node.links[layer].add(to);
+    if (node.links[layer].size > this.maxLinks(layer)) {
+      node.links[layer] = this.closest(node.vector, node.links[layer], this.maxLinks(layer));
+    }
+  }
+
+  private closest(vector: number[], ids: Iterable<string>, limit: number): Set<string> {
+    const scored: Candidate[] = [];
+    for (const id of ids) {
+      const node = this.nodes.get(id);
+      if (node) scored.push({ id, score: dot(vector, node.vector) });
+    }
+    return new Set(
+      scored
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map((c) => c.id)
+    );
+  }
+
+  /**
+   * Best-first search of one layer; returns up to ef candidates in ascending score order
+   */
+  private searchLayer(query: number[], entries: string[], ef: number, layer: number): Candidate[] {
+    const visited = new Set(entries);
+    const candidates: Candidate[] = [];
+    const found: Candidate[] = [];
+
+    for (const id of entries) {
+      const candidate = { id, score: dot(query, this.nodes.get(id)!.vector) };
+      insertSorted(candidates, candidate);
+      insertSorted(found, candidate);
+    }
+
+    while (candidates.length) {
+      const current = candidates.pop()!;
+      if (found.length >= ef && current.score < found[0].score) break;
+
+      const links = this.nodes.get(current.id)!.links[layer];
+      for (const id of links) {
+        if (visited.has(id)) continue;
+        visited.add(id);
+
+        const node = this.nodes.get(id);
+        if (!node) {
+          // A one-way link to a removed vector; the removal only repaired the vector's own neighbors
+          links.delete(id);
+          continue;
+        }
+
+        const score = dot(query, node.vector);
+        if (found.length < ef || score > found[0].score) {
+          insertSorted(candidates, { id, score });
+          insertSorted(found, { id, score });
+          if (found.length > ef) found.shift();
+        }
+      }
+    }
+
+    return found;
+  }
+}
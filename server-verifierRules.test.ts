@@ -0,0 +1,93 @@
+/**
+ * AIDE Platform - Verifier Rule Tests
+ * Covers the built-in rules, per-project rule settings and how rule findings affect verification
+ */
+
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { VerifierAgent } from "./server-agentOrchestrator";
+import { LocalStubProvider } from "./server-llmProviders";
+import { RuleEngine, stripCommentsAndStrings, verifierRules } from "./server-verifierRules";
+
+const file = (content: string, path = "src/a.ts") => ({ path, content });
+
+const GOOD = `export function parse(input: string): number {
+  const value = Number(input);
+  if (Number.isNaN(value)) throw new Error("Not a number");
+  return value;
+}`;
+
+/**
+ * Test Suite: Verifier Rules
+ */
+describe("Verifier Rules", () => {
+  it("should count the any type only where it is code", () => {
+    const prose = `${GOOD}\n// Handles many inputs; company policy allows anything\nexport const label = "any any any";`;
+    expect(verifierRules.check([file(prose)])).toEqual([]);
+
+    const loose = `${GOOD}\nexport function f(a: any, b: any): any {\n  return a as any;\n}`;
+    expect(verifierRules.check([file(loose)])).toEqual([
+      {
+        rule: "no-explicit-any",
+        severity: "error",
+        message: "Excessive use of 'any' type - consider proper typing (4 uses, at most 2 allowed)",
+        file: "src/a.ts",
+        line: 6,
+        column: 36,
+      },
+    ]);
+    expect(verifierRules.check([file(loose)], { "no-explicit-any": { options: { max: 4 } } })).toEqual([]);
+  });
+
+  it("should apply a project's rule settings", () => {
+    const logging = `${GOOD}\nconsole.log("parsed");\nconsole.error("oops");`;
+
+    expect(verifierRules.check([file(logging)])).toEqual([]);
+    expect(
+      verifierRules
+        .check([file(logging)], { "no-console": { enabled: true, options: { allow: ["error"] } } })
+        .map((issue) => `${issue.rule}:${issue.severity}:${issue.line}`)
+    ).toEqual(["no-console:warning:6"]);
+    expect(verifierRules.check([file("const x = 1;")], { "require-export": { enabled: false } })).toEqual([
+      expect.objectContaining({ rule: "require-error-handling", message: "No error handling detected" }),
+    ]);
+
+    expect(() => verifierRules.validate({ "no-tabs": {} })).toThrow("Unknown verifier rule: no-tabs");
+    expect(() => verifierRules.validate({ "no-explicit-any": { options: { max: -1 } } })).toThrow(
+      "Invalid options for rule no-explicit-any"
+    );
+  });
+
+  it("should pass verification with warnings and fail it on errors", async () => {
+    const rules = new RuleEngine();
+    rules.register({
+      id: "no-todo",
+      description: "Flags TODO comments",
+      severity: "warning",
+      options: z.object({}),
+      check: (files) =>
+        files.filter((f) => f.content.includes("TODO")).map((f) => ({ message: "Unfinished work", file: f.path })),
+    });
+    const verifier = new VerifierAgent(new LocalStubProvider({ responder: () => "LGTM" }), rules);
+    const changeset = (content: string) => ({
+      summary: "",
+      changes: [{ op: "create" as const, path: "src/a.ts", content }],
+    });
+
+    const warned = await verifier.verify({ files: new Map(), changeset: changeset(`${GOOD}\n// TODO: hex`) });
+    expect(warned.success).toBe(true);
+    expect(warned.result).toContain("warning: src/a.ts: Unfinished work [no-todo]");
+
+    const failed = await verifier.verify({
+      files: new Map(),
+      changeset: changeset(`${GOOD}\n// TODO: hex`),
+      rules: { "no-todo": { severity: "error" } },
+    });
+    expect(failed.success).toBe(false);
+    expect(failed.issues?.map((issue) => issue.rule)).toEqual(["no-todo"]);
+  });
+
+  it("should keep line breaks when blanking comments and strings", () => {
+    expect(stripCommentsAndStrings('a /* x\ny */ "s" // c\nb')).toBe(`a     \n${" ".repeat(13)}\nb`);
+  });
+});
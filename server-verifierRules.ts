@@ -0,0 +1,228 @@
+/**
+ * Verifier Rules - Pluggable code checks run by the VerifierAgent
+ * Each rule checks the changed source files and reports findings with a location where it has one.
+ * Projects enable or disable rules, change their severity and tune their options in a stored config.
+ */
+
+import { z } from "zod";
+
+export type RuleSeverity = "error" | "warning";
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+export interface RuleFinding {
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * A finding with the rule that raised it; error findings fail verification, warnings are only reported
+ */
+export interface RuleIssue extends RuleFinding {
+  rule: string;
+  severity: RuleSeverity;
+}
+
+export interface VerifierRule<Options = unknown> {
+  id: string;
+  description: string;
+  severity: RuleSeverity;
+  /**
+   * Rules that are off unless a project enables them
+   */
+  disabledByDefault?: boolean;
+  /**
+   * Parses a project's options for the rule and fills in the defaults
+   */
+  options: z.ZodType<Options>;
+  /**
+   * Checks the changed code files as a whole, so a rule can look across files
+   */
+  check(files: SourceFile[], options: Options): RuleFinding[];
+}
+
+/**
+ * Infer the options a rule checks with from its schema, so rules with different options share one list
+ */
+export function defineRule<Options>(rule: VerifierRule<Options>): VerifierRule {
+  return rule;
+}
+
+export const RuleConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(["error", "warning"]).optional(),
+  options: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * A project's rule settings keyed by rule id; rules it does not mention run with their defaults
+ */
+export const VerifierRulesConfigSchema = z.record(z.string(), RuleConfigSchema);
+
+export type VerifierRulesConfig = z.infer<typeof VerifierRulesConfigSchema>;
+
+/**
+ * Blank out comments and string literals, keeping line breaks, so rules only match code
+ */
+export function stripCommentsAndStrings(code: string): string {
+  return code.replace(
+    /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\[\s\S]|[^`\\])*`/g,
+    (match) => match.replace(/[^\n]/g, " ")
+  );
+}
+
+/**
+ * 1-based line and column of an offset
+ */
+function locate(content: string, offset: number): { line: number; column: number } {
+  const before = content.slice(0, offset).split("\n");
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+export const BUILTIN_RULES: VerifierRule[] = [
+  defineRule({
+    id: "require-export",
+    description: "The changed code exports something",
+    severity: "error",
+    options: z.object({}),
+    check(files) {
+      return files.some((file) => /\bexport\b/.test(stripCommentsAndStrings(file.content)))
+        ? []
+        : [{ message: "No exports found in code" }];
+    },
+  }),
+  defineRule({
+    id: "no-explicit-any",
+    description: "Limits how often a file uses the any type",
+    severity: "error",
+    options: z.object({ max: z.number().int().min(0).default(2) }),
+    check(files, { max }) {
+      return files.flatMap((file) => {
+        const uses = [...stripCommentsAndStrings(file.content).matchAll(/(?<![\w$.])any(?![\w$])/g)];
+        if (uses.length <= max) return [];
+
+        return [
+          {
+            message: `Excessive use of 'any' type - consider proper typing (${uses.length} uses, at most ${max} allowed)`,
+            file: file.path,
+            ...locate(file.content, uses[max].index ?? 0),
+          },
+        ];
+      });
+    },
+  }),
+  defineRule({
+    id: "require-error-handling",
+    description: "The changed code handles or raises errors somewhere",
+    severity: "error",
+    options: z.object({}),
+    check(files) {
+      const handles = files.some((file) =>
+        /\b(try|catch|throw|error|Error)\b|\.catch\(/.test(stripCommentsAndStrings(file.content))
+      );
+      return handles ? [] : [{ message: "No error handling detected" }];
+    },
+  }),
+  defineRule({
+    id: "max-file-lines",
+    description: "Keeps files short enough to review",
+    severity: "warning",
+    options: z.object({ max: z.number().int().positive().default(1000) }),
+    check(files, { max }) {
+      return files
+        .filter((file) => file.content.split("\n").length > max)
+        .map((file) => ({
+          message: `File has ${file.content.split("\n").length} lines, more than ${max}`,
+          file: file.path,
+          line: max + 1,
+        }));
+    },
+  }),
+  defineRule({
+    id: "no-console",
+    description: "Disallows console logging in committed code",
+    severity: "warning",
+    disabledByDefault: true,
+    options: z.object({ allow: z.array(z.string()).default([]) }),
+    check(files, { allow }) {
+      return files.flatMap((file) =>
+        [...stripCommentsAndStrings(file.content).matchAll(/\bconsole\.(\w+)\s*\(/g)]
+          .filter((match) => !allow.includes(match[1]))
+          .map((match) => ({
+            message: `Unexpected console.${match[1]} call`,
+            file: file.path,
+            ...locate(file.content, match.index ?? 0),
+          }))
+      );
+    },
+  }),
+];
+
+/**
+ * Read a stored rule config; projects without one run every rule with its defaults
+ */
+export function parseVerifierRulesConfig(raw: unknown): VerifierRulesConfig {
+  if (raw === null || raw === undefined) return {};
+
+  const parsed = VerifierRulesConfigSchema.safeParse(typeof raw === "string" ? JSON.parse(raw) : raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid verifier rules: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+  }
+  return parsed.data;
+}
+
+export class RuleEngine {
+  private rules = new Map<string, VerifierRule>();
+
+  constructor(rules: VerifierRule[] = BUILTIN_RULES) {
+    rules.forEach((rule) => this.register(rule));
+  }
+
+  register<Options>(rule: VerifierRule<Options>): void {
+    if (this.rules.has(rule.id)) throw new Error(`Verifier rule ${rule.id} is already registered`);
+    this.rules.set(rule.id, rule);
+  }
+
+  list(): VerifierRule[] {
+    return [...this.rules.values()];
+  }
+
+  /**
+   * Check that a project's config names registered rules and gives them valid options
+   */
+  validate(config: VerifierRulesConfig): void {
+    for (const [id, settings] of Object.entries(config)) {
+      const rule = this.rules.get(id);
+      if (!rule) throw new Error(`Unknown verifier rule: ${id}`);
+
+      const parsed = rule.options.safeParse(settings.options ?? {});
+      if (!parsed.success) {
+        throw new Error(`Invalid options for rule ${id}: ${parsed.error.issues.map((i) => i.message).join("; ")}`);
+      }
+    }
+  }
+
+  /**
+   * Run every enabled rule over the changed code files.
+   * Unknown rules in the config are ignored here; they are rejected when the config is saved.
+   */
+  check(files: SourceFile[], config: VerifierRulesConfig = {}): RuleIssue[] {
+    if (files.length === 0) return [];
+
+    return this.list().flatMap((rule) => {
+      const settings = config[rule.id];
+      if (!(settings?.enabled ?? !rule.disabledByDefault)) return [];
+
+      const options = rule.options.parse(settings?.options ?? {});
+      const severity = settings?.severity ?? rule.severity;
+      return rule.check(files, options).map((finding) => ({ ...finding, rule: rule.id, severity }));
+    });
+  }
+}
+
+export const verifierRules = new RuleEngine();